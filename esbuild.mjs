@@ -60,6 +60,12 @@ const files = [
     format: 'cjs',
     ...sharedDesktopOptions,
   },
+  {
+    entryPoints: ['src/web/extension.ts'],
+    outfile: 'out/web/extension.js',
+    format: 'cjs',
+    ...sharedWebOptions,
+  },
 ]
 
 Promise.all(files.map(x => esbuild.context(x))).then(async contexts => {
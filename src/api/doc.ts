@@ -0,0 +1,197 @@
+import type { Doc, Goal, GoalInfo, Local, Modality, Uri } from "./rpc";
+
+/** The formats a {@link Doc} can be exported as. */
+export type DocFormat = "text" | "markdown" | "latex";
+
+/** Render a {@link Doc} as plain text, discarding any styling. */
+export const docToText = (doc: Doc): string =>
+  doc.map(fragment => typeof fragment === "string" ? fragment : docToText(fragment.children)).join("");
+
+/** The agda.sty macro used for each style class. */
+const latexMacros: Record<string, string> = {
+  comment: "AgdaComment",
+  keyword: "AgdaKeyword",
+  string: "AgdaString",
+  number: "AgdaNumber",
+  hole: "AgdaHole",
+  symbol: "AgdaSymbol",
+  primitiveType: "AgdaPrimitiveType",
+  bound: "AgdaBound",
+  generalizable: "AgdaGeneralizable",
+  inductiveconstructor: "AgdaInductiveConstructor",
+  coinductiveconstructor: "AgdaCoinductiveConstructor",
+  datatype: "AgdaDatatype",
+  field: "AgdaField",
+  function: "AgdaFunction",
+  module: "AgdaModule",
+  postulate: "AgdaPostulate",
+  primitive: "AgdaPrimitive",
+  record: "AgdaRecord",
+  argument: "AgdaArgument",
+  macro: "AgdaMacro",
+  pragma: "AgdaPragma",
+};
+
+const latexEscapes: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "{": "\\{",
+  "}": "\\}",
+  "$": "\\$",
+  "&": "\\&",
+  "#": "\\#",
+  "%": "\\%",
+  "_": "\\_",
+  "^": "\\textasciicircum{}",
+  "~": "\\textasciitilde{}",
+  "\n": "\\\\\n",
+};
+
+const escapeLatex = (text: string): string => text.replace(/[\\{}$&#%_^~\n]/g, c => latexEscapes[c]);
+
+/**
+ * Render a {@link Doc} as LaTeX, using the macros from agda.sty for each
+ * highlighted fragment.
+ */
+export const docToLatex = (doc: Doc): string =>
+  doc.map(fragment => {
+    if (typeof fragment === "string") return escapeLatex(fragment);
+
+    const body = docToLatex(fragment.children);
+    const macro = fragment.style.map(style => latexMacros[style]).find(x => x);
+    return macro ? `\\${macro}{${body}}` : body;
+  }).join("");
+
+/** The annotations Agda would print for a modality, such as `@0`. Default modalities are omitted. */
+export const modalityAnnotations = ({ modRelevance, modQuantity, modCohesion }: Modality): string[] => {
+  const annotations: string[] = [];
+  if (modQuantity === "Quantity0") annotations.push("@0");
+  if (modQuantity === "Quantity1") annotations.push("@1");
+  if (modRelevance === "Irrelevant") annotations.push("@irr");
+  if (modRelevance === "NonStrict") annotations.push("@shirr");
+  if (modCohesion === "Flat") annotations.push("@♭");
+  if (modCohesion === "Sharp") annotations.push("@♯");
+  return annotations;
+};
+
+const brackets = { Hidden: ["{", "}"], Instance: ["⦃", "⦄"], NotHidden: ["", ""] };
+
+/**
+ * Decorate the binder of a context entry with its hiding and modality, as in
+ * `{@0 x}` or `⦃x⦄`. If the document is given, the binder links to its
+ * binding site.
+ */
+export const localBinderDoc = ({ localBinder, localHiding, localModality, localBindingSite }: Local, uri?: Uri): Doc => {
+  const [open, close] = brackets[localHiding];
+  const annotations = modalityAnnotations(localModality);
+
+  const binder: Doc = uri && localBindingSite
+    ? [{ style: [], children: localBinder, definition: { uri, range: localBindingSite } }]
+    : localBinder;
+
+  return [
+    ...(open ? [{ style: ["symbol"], children: [open] }] : []),
+    ...annotations.map(a => ({ style: ["keyword"], children: [`${a} `] })),
+    ...binder,
+    ...(close ? [{ style: ["symbol"], children: [close] }] : []),
+  ];
+};
+
+const localToDoc = (local: Local): Doc =>
+  local.localValue ? [...localBinderDoc(local), " ", ...local.localValue] : localBinderDoc(local);
+
+/** Render a list of lines in the given format. */
+const linesTo = (lines: Doc[], format: DocFormat): string => {
+  switch (format) {
+    case "text":
+      return lines.map(docToText).join("\n");
+    case "markdown":
+      return ["```agda", ...lines.map(docToText), "```"].join("\n");
+    case "latex":
+      return lines.map(docToLatex).join(" \\\\\n");
+  }
+};
+
+const goalToDoc = ({ goalId, goalType }: Goal): Doc => [`?${goalId} : `, ...goalType];
+
+/**
+ * Render a goal with its context and constraints, laid out as in Emacs'
+ * `*Agda information*` buffer.
+ */
+export const goalInfoToString = ({ goalGoal, goalContext, goalConstraints }: GoalInfo, format: DocFormat): string => {
+  const lines: Doc[] = [["Goal: ", ...goalGoal.goalType]];
+  if (goalContext.length > 0) lines.push(["————————————————————————————————"], ...goalContext.map(localToDoc));
+  if (goalConstraints.length > 0) lines.push(["Constraints:"], ...goalConstraints);
+  return linesTo(lines, format);
+};
+
+/** Render a list of goals and their types. */
+export const goalsToString = (goals: Goal[], format: DocFormat): string => linesTo(goals.map(goalToDoc), format);
+
+/**
+ * Split a {@link Doc} at the first occurrence of a separator, which may be
+ * nested inside a styled fragment. Returns undefined if the separator does
+ * not occur.
+ */
+export const splitDoc = (doc: Doc, separator: string): [Doc, Doc] | undefined => {
+  for (let i = 0; i < doc.length; i++) {
+    const fragment = doc[i];
+    let split: [Doc, Doc] | undefined;
+
+    if (typeof fragment === "string") {
+      const index = fragment.indexOf(separator);
+      if (index >= 0) split = [[fragment.substring(0, index)], [fragment.substring(index + separator.length)]];
+    } else {
+      const inner = splitDoc(fragment.children, separator);
+      if (inner) split = [[{ ...fragment, children: inner[0] }], [{ ...fragment, children: inner[1] }]];
+    }
+
+    if (split) return [[...doc.slice(0, i), ...split[0]], [...split[1], ...doc.slice(i + 1)]];
+  }
+
+  return undefined;
+};
+
+/** An endpoint of the interval. */
+export type Endpoint = "i0" | "i1";
+
+/** A face of a cubical boundary: where some interval variables are at an endpoint, and the term required there. */
+export type Face = {
+  conditions: Record<string, Endpoint>,
+  term: Doc,
+  /** The face as displayed by Agda. */
+  doc: Doc,
+};
+
+export type Boundary = {
+  /** The interval variables, in the order they first appear. */
+  variables: string[],
+  faces: Face[],
+};
+
+/**
+ * Parse the faces of a goal's boundary, which Agda displays as
+ * `i = i0 ∧ j = i1 ⊢ t`. Returns undefined if any face can't be understood.
+ */
+export const parseBoundary = (boundary: Doc[]): Boundary | undefined => {
+  const variables: string[] = [];
+  const faces: Face[] = [];
+
+  for (const doc of boundary) {
+    const split = splitDoc(doc, "⊢");
+    if (!split) return undefined;
+
+    const conditions: Record<string, Endpoint> = {};
+    for (const condition of docToText(split[0]).split(/∧|,/)) {
+      const match = /^\s*\(?\s*(\S+)\s*=\s*(i0|i1)\s*\)?\s*$/.exec(condition);
+      if (!match) return undefined;
+
+      const [, variable, endpoint] = match;
+      conditions[variable] = endpoint as Endpoint;
+      if (!variables.includes(variable)) variables.push(variable);
+    }
+
+    faces.push({ conditions, term: split[1], doc });
+  }
+
+  return { variables, faces };
+};
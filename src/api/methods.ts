@@ -19,7 +19,12 @@ export const AgdaInfoviewRefresh: ProtocolNotificationType<AgdaInfoviewRefreshPa
 /** Query the Agda state.  */
 export const AgdaQuery: ProtocolRequestType<unknown, unknown, void, void, void> = new ProtocolRequestType("agda/query");
 
-export type AgdaGoalsParams = { goals: Goal[], uri: Uri };
+export type AgdaGoalsParams = {
+  goals: Goal[],
+  uri: Uri,
+  /** The version of the document the server checked, if it reports it. */
+  version?: number,
+};
 
 /** Update the goals in the infoview. */
 export const AgdaGoals: ProtocolNotificationType<AgdaGoalsParams, void> = new ProtocolNotificationType("agda/goals");
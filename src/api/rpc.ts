@@ -2,7 +2,20 @@ import type * as lsp from "vscode-languageclient";
 
 export type Uri = string;
 
-export type Fragment = { style: string[], children: Fragment[] } | string
+/** A range in a document, such as where a name is defined. */
+export type Location = {
+  uri:   Uri,
+  range: lsp.Range,
+}
+
+export type Fragment = {
+  style:    string[],
+  children: Fragment[],
+  /** Where the name displayed by this fragment is defined, if it is a name. */
+  definition?: Location,
+  /** Extra information about this fragment, such as the type of a name. */
+  hover?: Doc,
+} | string
 export type Doc = Fragment[]
 
 export type Goal = {
@@ -41,6 +54,19 @@ export type GoalInfo = {
   goalConstraints: Doc[],
 };
 
+/** A name in scope, such as one exported by a module or found by a search. */
+export type Name = {
+  nameName:       string,
+  nameType:       Doc,
+  nameDefinition: Location | null,
+}
+
+export type ModuleContents = {
+  /** The submodules of the module. */
+  contentsModules: string[],
+  contentsNames:   Name[],
+}
+
 export type Relevance = "Relevant"  | "NonStrict"  | "Irrelevant";
 export type Quantity  = "Quantity0" | "Quantity1"  | "Quantityω";
 export type Cohesion  = "Flat"      | "Continuous" | "Sharp";
@@ -53,9 +79,21 @@ export class Query<P, R> {
   private constructor(public readonly kind: keyof Queries) { }
 
   public static GoalAt: Query<{ position: lsp.Position }, number | null> = new Query("GoalAt");
-  public static AllGoals: Query<{ types: boolean }, Goal[]> = new Query("AllGoals");
-  public static GoalInfo: Query<{ goal: number }, GoalInfo> = new Query("GoalInfo");
+  public static AllGoals: Query<{ types: boolean, rewrite: Rewrite }, Goal[]> = new Query("AllGoals");
+  public static GoalInfo: Query<{ goal: number, rewrite: Rewrite }, GoalInfo> = new Query("GoalInfo");
   public static ModuleName: Query<object, Doc | null> = new Query("ModuleName");
+  /** Infer the type of an expression, in the context of a goal (or at the top level if `goal` is null). */
+  public static InferType: Query<{ goal: number | null, expr: string }, Doc> = new Query("InferType");
+  /** Compute the normal form of an expression, in the context of a goal (or at the top level if `goal` is null). */
+  public static ComputeNormalForm: Query<{ goal: number | null, expr: string }, Doc> = new Query("ComputeNormalForm");
+  /** Explain how a name came to be in scope, in the context of a goal (or at the top level). */
+  public static WhyInScope: Query<{ goal: number | null, name: string }, Doc> = new Query("WhyInScope");
+  /** List the names exported by a module, in the context of a goal (or at the top level). */
+  public static ModuleContents: Query<{ goal: number | null, module: string, rewrite: Rewrite }, ModuleContents> = new Query("ModuleContents");
+  /** Search for names whose types mention the given names, in the context of a goal (or at the top level). */
+  public static SearchAbout: Query<{ goal: number | null, query: string, rewrite: Rewrite }, Name[]> = new Query("SearchAbout");
+  /** The unsolved constraints in the document. */
+  public static Constraints: Query<object, Doc[]> = new Query("Constraints");
 }
 
 type Queries = {
@@ -63,8 +101,17 @@ type Queries = {
   AllGoals: typeof Query.AllGoals,
   GoalInfo: typeof Query.GoalInfo,
   ModuleName: typeof Query.ModuleName,
+  InferType: typeof Query.InferType,
+  ComputeNormalForm: typeof Query.ComputeNormalForm,
+  WhyInScope: typeof Query.WhyInScope,
+  ModuleContents: typeof Query.ModuleContents,
+  SearchAbout: typeof Query.SearchAbout,
+  Constraints: typeof Query.Constraints,
 }
 
+/** The queries which evaluate an expression, and can be run from the infoview's evaluator. */
+export type EvaluationMode = "InferType" | "ComputeNormalForm";
+
 type QueryParameter = {
   [K in keyof Queries]: Queries[K] extends Query<infer P, infer _> ? P & { kind: K, uri: Uri } : never;
 }
@@ -80,21 +127,46 @@ type FromInfoviewMessages = {
     params: QueryParameter[keyof Queries],
   },
 
+  /** Cancel an `RPCRequest` whose reply is no longer needed. */
+  RPCCancel: {
+    serial: number,
+  },
+
   GoToGoal: {
     uri: Uri,
     range: lsp.Range,
   },
+
+  /** Jump to where a name in a {@link Doc} is defined. */
+  GoToDefinition: {
+    definition: Location,
+  },
+
+  /** Insert a name at the cursor in a document. */
+  InsertName: {
+    uri: Uri,
+    name: string,
+  },
+
+  /** Copy some text, such as a rendered goal, to the clipboard. */
+  Copy: {
+    text: string,
+  },
+
+  /** Open a page of the infoview in its own panel. */
+  Pin: {
+    uri: Uri,
+    route: string,
+  },
 }
 
 export type FromInfoviewMessage = ({ [K in keyof FromInfoviewMessages]: { kind: K } & FromInfoviewMessages[K] })[keyof FromInfoviewMessages];
 
 type ToInfoviewMessages = {
-  /** A reply to an `RPCReques` message.
-   */
+  /** A reply to an `RPCRequest` message, with either its result or why it failed. */
   RPCReply: {
     serial: number,
-    data: unknown,
-  },
+  } & ({ data: unknown } | { error: string }),
   /** Navigate to a page on the infoview. */
   Navigate: {
     route: string,
@@ -108,7 +180,13 @@ type ToInfoviewMessages = {
   /** Print a message to the infoview. */
   RunningInfo: {
     message: string,
-  }
+  },
+  /** Update the settings used by the infoview for the given document. */
+  Configure: {
+    uri: Uri,
+    /** The normalisation level to use for goals, unless overridden in the infoview. */
+    defaultRewrite: Rewrite,
+  },
 }
 
 export type ToInfoviewMessage = ({ [K in keyof ToInfoviewMessages]: { kind: K } & ToInfoviewMessages[K] })[keyof ToInfoviewMessages];
@@ -0,0 +1,87 @@
+import {
+  type Event, EventEmitter, type ExtensionContext, ThemeIcon, type TreeDataProvider, TreeItem,
+  TreeItemCollapsibleState, Uri, workspace
+} from "vscode";
+
+import * as rpc from "../api/rpc";
+import { docToText } from "../api/doc";
+import { GoalStore } from "./GoalStore";
+import { ClientPool } from "./client/pool";
+import { isAgdaDocument } from "./utils";
+
+type GoalTreeElement =
+  { kind: "document", uri: Uri } |
+  { kind: "goal", uri: Uri, goal: rpc.Goal };
+
+/**
+ * A tree of every open Agda document, and the interaction points within it.
+ */
+export class AgdaGoalTreeProvider implements TreeDataProvider<GoalTreeElement> {
+  public static readonly viewType = "agda.goals";
+
+  private readonly emitter: EventEmitter<GoalTreeElement | undefined> = new EventEmitter();
+  readonly onDidChangeTreeData: Event<GoalTreeElement | undefined> = this.emitter.event;
+
+  constructor(context: ExtensionContext, private readonly clients: ClientPool, private readonly goals: GoalStore) {
+    context.subscriptions.push(
+      this.emitter,
+      goals.onDidChangeGoals(() => this.emitter.fire(undefined)),
+      workspace.onDidOpenTextDocument(d => {
+        if (isAgdaDocument(d)) this.emitter.fire(undefined);
+      }),
+      workspace.onDidCloseTextDocument(d => {
+        if (isAgdaDocument(d)) this.emitter.fire(undefined);
+      }),
+    );
+  }
+
+  getTreeItem(element: GoalTreeElement): TreeItem {
+    if (element.kind === "document") {
+      const document = workspace.textDocuments.find(d => d.uri.toString() === element.uri.toString());
+      const goals = document && this.goals.peek(document);
+
+      const item = new TreeItem(element.uri, goals && goals.length === 0 ? TreeItemCollapsibleState.None : TreeItemCollapsibleState.Expanded);
+      item.description = !goals ? "Not loaded" : goals.length === 0 ? "All done" : `${goals.length} goal${goals.length === 1 ? "" : "s"}`;
+      item.contextValue = "document";
+      return item;
+    } else {
+      const { uri, goal } = element;
+      const type = docToText(goal.goalType);
+
+      const item = new TreeItem(`?${goal.goalId}`, TreeItemCollapsibleState.None);
+      item.description = type;
+      item.tooltip = type;
+      item.iconPath = new ThemeIcon("circle-outline");
+      item.contextValue = "goal";
+      item.command = {
+        title: "Go to goal",
+        command: "agda.goToGoal",
+        arguments: [uri, this.clients.protocol2CodeConverter.asRange(goal.goalRange)],
+      };
+      return item;
+    }
+  }
+
+  async getChildren(element?: GoalTreeElement): Promise<GoalTreeElement[]> {
+    if (!element) {
+      return workspace.textDocuments
+        .filter(isAgdaDocument)
+        .map((d): GoalTreeElement => ({ kind: "document", uri: d.uri }));
+    } else if (element.kind === "document") {
+      const { uri } = element;
+      const document = workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+      if (!document) return [];
+
+      let goals: rpc.Goal[];
+      try {
+        goals = await this.goals.get(document, true);
+      } catch {
+        // The server may not have started, which its status item already reports.
+        return [];
+      }
+      return goals.map((goal): GoalTreeElement => ({ kind: "goal", uri, goal }));
+    } else {
+      return [];
+    }
+  }
+}
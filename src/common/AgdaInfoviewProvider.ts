@@ -1,50 +1,120 @@
-import { type ExtensionContext, Uri, type WebviewView, type WebviewViewProvider, window } from "vscode";
+import {
+  CancellationTokenSource, type ExtensionContext, Range, Uri, ViewColumn, type Webview, type WebviewPanel, type WebviewView,
+  type WebviewViewProvider, commands, env, window, workspace
+} from "vscode";
 
-import { BaseLanguageClient as LanguageClient } from "vscode-languageclient";
 import { AgdaInfoviewMessage, AgdaQuery } from "../api/methods";
-import { FromInfoviewMessage, ToInfoviewMessage } from "../api/rpc";
-import { assertNever } from './utils';
+import { EvaluationMode, FromInfoviewMessage, ToInfoviewMessage } from "../api/rpc";
+import { assertNever, getDefaultRewrite, goToGoal, insertAtCursor } from './utils';
+import { ClientPool } from "./client/pool";
+
+/** Escape text for use in an HTML attribute. */
+const escapeAttribute = (text: string): string =>
+  text.replace(/[&"<>]/g, c => `&#${c.charCodeAt(0)};`);
+
+/** An infoview panel which always displays the same page of a document. */
+type PinnedInfoview = {
+  panel: WebviewPanel,
+  uri: Uri,
+  route: string,
+};
 
 export class AgdaInfoviewProvider implements WebviewViewProvider {
   public static readonly viewType = "agda.infoView";
+  public static readonly pinnedViewType = "agda.pinnedInfoView";
 
   private view?: WebviewView;
+  /** The document currently displayed in the infoview. */
+  private uri?: Uri;
+  /** The page currently displayed in the infoview. */
+  private route?: string;
+  /** The number of evaluations requested, so that each has a distinct route. */
+  private evaluations = 0;
+
+  private readonly pinned: Set<PinnedInfoview> = new Set();
+  /** Requests from each infoview which are still running, keyed by their serial. */
+  private readonly requests: WeakMap<Webview, Map<number, CancellationTokenSource>> = new WeakMap();
 
-  constructor(private readonly context: ExtensionContext, private readonly client: LanguageClient) {
+  constructor(private readonly context: ExtensionContext, private readonly clients: ClientPool) {
+    context.subscriptions.push(
+      workspace.onDidChangeConfiguration(e => {
+        if (this.uri && this.view && e.affectsConfiguration("agda.goal.typeNormalisation", this.uri)) {
+          this.configure(this.view.webview, this.uri);
+        }
+
+        for (const { panel, uri } of this.pinned) {
+          if (e.affectsConfiguration("agda.goal.typeNormalisation", uri)) this.configure(panel.webview, uri);
+        }
+      }),
+      this.clients.onNotification(AgdaInfoviewMessage, m => this.displayMessage(this.clients.protocol2CodeConverter.asUri(m.uri), m.message)),
+    );
   }
 
   resolveWebviewView(webviewView: WebviewView): void | Thenable<void> {
     this.view = webviewView;
+    this.uri = undefined;
     webviewView.show();
 
-    webviewView.webview.options = {
+    this.context.subscriptions.push(this.setupWebview(webviewView.webview));
+  }
+
+  /**
+   * Set up the HTML and message handling of an infoview. A pinned page is
+   * included in the HTML, as messages sent before the infoview's script has
+   * loaded are lost.
+   */
+  private setupWebview(webview: Webview, pinned?: { uri: Uri, route: string }) {
+    const page = pinned
+      ? ` data-uri="${escapeAttribute(pinned.uri.toString())}" data-route="${escapeAttribute(pinned.route)}" data-default-rewrite="${escapeAttribute(getDefaultRewrite(pinned.uri))}"`
+      : "";
+
+    webview.options = {
       // Allow scripts in the webview
       enableScripts: true,
     };
 
-    webviewView.webview.html = `<html>
+    webview.html = `<html>
       <head>
-        <link rel="stylesheet" href="${webviewView.webview.asWebviewUri(Uri.joinPath(this.context.extensionUri, "out", "infoview", "styles.css"))}" />
+        <link rel="stylesheet" href="${webview.asWebviewUri(Uri.joinPath(this.context.extensionUri, "out", "infoview", "styles.css"))}" />
       </head>
 
-      <body>
+      <body data-pinned="${pinned !== undefined}"${page}>
         <div id="container" style="font-size: var(--vscode-editor-font-size); font-family: var(--vscode-editor-font-family);"></div>
       </body>
 
-      <script src="${webviewView.webview.asWebviewUri(Uri.joinPath(this.context.extensionUri, "out", "infoview", "index.js"))}"></script>
+      <script src="${webview.asWebviewUri(Uri.joinPath(this.context.extensionUri, "out", "infoview", "index.js"))}"></script>
     </html>
     `;
 
-    this.context.subscriptions.push(
-      webviewView.webview.onDidReceiveMessage(msg => this.handleMessage(msg as FromInfoviewMessage), undefined, []),
-      this.client.onNotification(AgdaInfoviewMessage, m => this.displayMessage(this.client.protocol2CodeConverter.asUri(m.uri), m.message)),
-    );
+    return webview.onDidReceiveMessage(msg => this.handleMessage(webview, msg as FromInfoviewMessage));
   }
 
+  /** Post a message to the main infoview. */
   private post(msg: ToInfoviewMessage) {
+    if (msg.kind === "Navigate" || msg.kind === "Refresh") {
+      this.route = msg.route;
+
+      if (msg.uri !== "about:blank") {
+        const uri = Uri.parse(msg.uri);
+        if (this.view && this.uri?.toString() !== uri.toString()) this.configure(this.view.webview, uri);
+        this.uri = uri;
+      } else {
+        this.uri = undefined;
+      }
+    }
+
     void this.view?.webview.postMessage(msg);
   }
 
+  /** Send the settings for a document to an infoview. */
+  private configure(webview: Webview, uri: Uri) {
+    void webview.postMessage({
+      kind: "Configure",
+      uri: uri.toString(),
+      defaultRewrite: getDefaultRewrite(uri),
+    } satisfies ToInfoviewMessage);
+  }
+
   allGoals(uri: Uri) {
     this.post({ kind: "Navigate", route: "/goals", uri: uri.toString() });
   }
@@ -57,24 +127,110 @@ export class AgdaInfoviewProvider implements WebviewViewProvider {
     });
   }
 
-  private async handleMessage(msg: FromInfoviewMessage): Promise<void> {
-    if (!this.view) return;
+  /**
+   * Evaluate an expression in the context of a goal (or at the top level), and
+   * display the result in the infoview.
+   */
+  evaluate(uri: Uri, goal: number | null, mode: EvaluationMode, expr: string) {
+    // Repeating an evaluation should run it again, so give each its own route.
+    const search = new URLSearchParams({ mode, expr, request: String(++this.evaluations) });
+    this.reveal();
+    this.post({
+      kind: "Navigate",
+      route: `${goal === null ? "/eval" : `/goal/${goal}`}?${search.toString()}`,
+      uri: uri.toString(),
+    });
+  }
+
+  /** Reveal the infoview, and display a page for a document. */
+  show(uri: Uri, route: string) {
+    this.reveal();
+    this.post({ kind: "Navigate", route, uri: uri.toString() });
+  }
+
+  /** Make the infoview visible, without taking focus. */
+  reveal() {
+    if (this.view) {
+      this.view.show(true);
+    } else {
+      void commands.executeCommand(`${AgdaInfoviewProvider.viewType}.focus`, { preserveFocus: true });
+    }
+  }
+
+  /** Pin the page currently displayed in the main infoview. */
+  pinCurrent() {
+    if (!this.uri || !this.route) return;
+    this.pin(this.uri, this.route);
+  }
+
+  /**
+   * Open a page of the infoview in a new panel beside the editor. Unlike the
+   * main infoview, this does not follow the cursor, but is still refreshed when
+   * the document is reloaded.
+   */
+  pin(uri: Uri, route: string) {
+    const goal = /^\/goal\/(\d+)/.exec(route);
+    const page = goal ? `?${goal[1]}` : route.startsWith("/goals") ? "Goals" : "Agda";
+    const name = uri.path.substring(uri.path.lastIndexOf("/") + 1);
+
+    const panel = window.createWebviewPanel(
+      AgdaInfoviewProvider.pinnedViewType, `${page} — ${name}`,
+      { viewColumn: ViewColumn.Beside, preserveFocus: true },
+      // Pinned pages are never re-navigated, so would be blank if reloaded.
+      { retainContextWhenHidden: true },
+    );
+    panel.iconPath = Uri.joinPath(this.context.extensionUri, "logo.svg");
+
+    const pinned: PinnedInfoview = { panel, uri, route };
+    this.pinned.add(pinned);
+
+    const listener = this.setupWebview(panel.webview, { uri, route });
+    panel.onDidDispose(() => {
+      listener.dispose();
+      this.pinned.delete(pinned);
+    });
+  }
 
+  private async handleMessage(webview: Webview, msg: FromInfoviewMessage): Promise<void> {
     if (msg.kind === "RPCRequest") {
-      const resp = await this.client.sendRequest(AgdaQuery, {
-        ...msg.params,
-        uri: this.client.code2ProtocolConverter.asUri(Uri.parse(msg.params.uri)),
-      });
-
-      this.post({
-        kind: "RPCReply",
-        serial: msg.serial,
-        data: resp
-      });
+      let requests = this.requests.get(webview);
+      if (!requests) this.requests.set(webview, requests = new Map<number, CancellationTokenSource>());
+
+      const source = new CancellationTokenSource();
+      requests.set(msg.serial, source);
+
+      // Always reply, even if the request fails, so the infoview doesn't wait forever.
+      let reply: ToInfoviewMessage;
+      try {
+        const uri = Uri.parse(msg.params.uri);
+        const data = await this.clients.sendRequest(uri, AgdaQuery, {
+          ...msg.params,
+          uri: this.clients.code2ProtocolConverter.asUri(uri),
+        }, source.token);
+        reply = { kind: "RPCReply", serial: msg.serial, data };
+      } catch (e) {
+        reply = { kind: "RPCReply", serial: msg.serial, error: e instanceof Error ? e.message : String(e) };
+      } finally {
+        requests.delete(msg.serial);
+        source.dispose();
+      }
+
+      void webview.postMessage(reply);
+    } else if (msg.kind === "RPCCancel") {
+      this.requests.get(webview)?.get(msg.serial)?.cancel();
     } else if (msg.kind === "GoToGoal") {
-      await window.showTextDocument(this.client.protocol2CodeConverter.asUri(msg.uri), {
-        selection: this.client.protocol2CodeConverter.asRange(msg.range)
-      });
+      await goToGoal(this.clients.protocol2CodeConverter.asUri(msg.uri), this.clients.protocol2CodeConverter.asRange(msg.range));
+    } else if (msg.kind === "GoToDefinition") {
+      const { uri, range } = msg.definition;
+      const start = this.clients.protocol2CodeConverter.asPosition(range.start);
+      await window.showTextDocument(this.clients.protocol2CodeConverter.asUri(uri), { selection: new Range(start, start) });
+    } else if (msg.kind === "InsertName") {
+      await insertAtCursor(Uri.parse(msg.uri), msg.name);
+    } else if (msg.kind === "Copy") {
+      await env.clipboard.writeText(msg.text);
+      window.setStatusBarMessage("Copied to clipboard", 2000);
+    } else if (msg.kind === "Pin") {
+      this.pin(Uri.parse(msg.uri), msg.route);
     } else {
       assertNever(msg);
     }
@@ -86,6 +242,11 @@ export class AgdaInfoviewProvider implements WebviewViewProvider {
       route: "/goals",
       uri: uri.toString(),
     });
+
+    for (const { panel, uri: pinnedUri, route } of this.pinned) {
+      if (pinnedUri.toString() !== uri.toString()) continue;
+      void panel.webview.postMessage({ kind: "Refresh", route, uri: uri.toString() } satisfies ToInfoviewMessage);
+    }
   }
 
   public displayMessage(uri: Uri, msg: string) {
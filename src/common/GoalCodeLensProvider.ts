@@ -0,0 +1,55 @@
+import {
+  CodeLens, type CodeLensProvider, type Event, EventEmitter, type ExtensionContext, type TextDocument, workspace
+} from "vscode";
+
+import { GoalStore } from "./GoalStore";
+import { ClientPool } from "./client/pool";
+
+/** The code actions offered above each goal, and the code action kind they run. */
+const goalActions: [title: string, kind: string][] = [
+  ["Give", "agda.give"],
+  ["Refine", "agda.refine"],
+  ["Case split", "agda.case"],
+  ["Auto", "agda.auto"],
+];
+
+/**
+ * Show the actions available for each goal above it, so that they can be
+ * found without knowing the keybindings.
+ */
+export class GoalCodeLensProvider implements CodeLensProvider {
+  private readonly emitter: EventEmitter<void> = new EventEmitter();
+  readonly onDidChangeCodeLenses: Event<void> = this.emitter.event;
+
+  constructor(context: ExtensionContext, private readonly clients: ClientPool, private readonly goals: GoalStore) {
+    context.subscriptions.push(
+      this.emitter,
+      goals.onDidChangeGoals(() => this.emitter.fire()),
+      workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration("agda.codeLens.enabled")) this.emitter.fire();
+      }),
+    );
+  }
+
+  async provideCodeLenses(document: TextDocument): Promise<CodeLens[]> {
+    if (!workspace.getConfiguration("agda.codeLens", document.uri).get<boolean>("enabled", true)) return [];
+
+    const goals = await this.goals.get(document);
+    return goals.flatMap(({ goalId, goalRange }) => {
+      const range = this.clients.protocol2CodeConverter.asRange(goalRange);
+
+      return [
+        ...goalActions.map(([title, kind]) => new CodeLens(range, {
+          title,
+          command: "agda.goalAction",
+          arguments: [document.uri, range, kind],
+        })),
+        new CodeLens(range, {
+          title: "Goal info",
+          command: "agda.showGoal",
+          arguments: [document.uri, goalId],
+        }),
+      ];
+    });
+  }
+}
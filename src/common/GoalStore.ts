@@ -0,0 +1,98 @@
+import {
+  type Event, EventEmitter, type ExtensionContext, type Position, type TextDocument, Uri, workspace
+} from "vscode";
+
+import { AgdaGoals } from "../api/methods";
+import * as rpc from "../api/rpc";
+import { getDefaultRewrite } from "./utils";
+import { ClientPool } from "./client/pool";
+
+type DocumentGoals = {
+  /** The version of the document these goals are for. */
+  version: number,
+  /** Whether the goals include their types. */
+  typed: boolean,
+  goals: rpc.Goal[],
+};
+
+/**
+ * A cache of the goals in each open document.
+ *
+ * This is kept up-to-date by the server's {@link AgdaGoals} notification, and
+ * only falls back to querying the server when the document has changed since
+ * the goals were last reported.
+ */
+export class GoalStore {
+  private readonly documents: Map<string, DocumentGoals> = new Map();
+  private readonly pending: Map<string, Promise<rpc.Goal[]>> = new Map();
+
+  private readonly emitter: EventEmitter<Uri> = new EventEmitter();
+  /** Fired when the goals for a document are updated. */
+  readonly onDidChangeGoals: Event<Uri> = this.emitter.event;
+
+  constructor(context: ExtensionContext, private readonly clients: ClientPool, private readonly agda: rpc.Connection<Uri>) {
+    context.subscriptions.push(
+      this.emitter,
+      clients.onNotification(AgdaGoals, ({ uri, goals, version }) => {
+        const codeUri = clients.protocol2CodeConverter.asUri(uri);
+        const document = workspace.textDocuments.find(d => d.uri.toString() === codeUri.toString());
+        if (!document) return;
+
+        // The document may have been edited while it was being checked, in
+        // which case these goals are for an older version. If the server does
+        // not tell us which version it checked, we can only trust the goals
+        // when the document matches what was saved (and so checked).
+        if (version !== undefined ? version !== document.version : document.isDirty) return;
+
+        this.set(document, goals, goals.every(g => g.goalType.length > 0));
+      }),
+      workspace.onDidCloseTextDocument(d => this.documents.delete(d.uri.toString())),
+      workspace.onDidChangeConfiguration(e => {
+        // Goal types depend on the normalisation level, so throw away any we have.
+        if (!e.affectsConfiguration("agda.goal.typeNormalisation")) return;
+        for (const [uri, entry] of this.documents) {
+          if (entry.typed) this.documents.set(uri, { ...entry, typed: false });
+        }
+      }),
+    );
+  }
+
+  private set(document: TextDocument, goals: rpc.Goal[], typed: boolean) {
+    this.documents.set(document.uri.toString(), { version: document.version, typed, goals });
+    this.emitter.fire(document.uri);
+  }
+
+  /** Get the goals in a document, if they are known for its current version. */
+  peek(document: TextDocument, types: boolean = false): rpc.Goal[] | undefined {
+    const entry = this.documents.get(document.uri.toString());
+    return entry && entry.version === document.version && (entry.typed || !types) ? entry.goals : undefined;
+  }
+
+  /** Get the goals in a document, querying the server if they are not known. */
+  get(document: TextDocument, types: boolean = false): Promise<rpc.Goal[]> {
+    const goals = this.peek(document, types);
+    if (goals) return Promise.resolve(goals);
+
+    // Share the request between concurrent callers, such as rapid cursor movements.
+    const key = `${document.uri.toString()}@${document.version}#${types}`;
+    const existing = this.pending.get(key);
+    if (existing) return existing;
+
+    const { uri, version } = document;
+    const request = this.agda.postRequest(rpc.Query.AllGoals, { types, rewrite: getDefaultRewrite(uri), uri })
+      .then(goals => {
+        if (document.version === version && !document.isClosed) this.set(document, goals, types);
+        return goals;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /** Find the goal containing a position. */
+  async goalAt(document: TextDocument, position: Position): Promise<rpc.Goal | undefined> {
+    const goals = await this.get(document);
+    return goals.find(({ goalRange }) => this.clients.protocol2CodeConverter.asRange(goalRange).contains(position));
+  }
+}
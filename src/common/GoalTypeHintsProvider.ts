@@ -0,0 +1,96 @@
+import {
+  type Event, EventEmitter, type ExtensionContext, InlayHint, InlayHintKind, type InlayHintsProvider,
+  MarkdownString, type Range, type TextDocument, Uri, workspace
+} from "vscode";
+
+import * as rpc from "../api/rpc";
+import { docToText } from "../api/doc";
+import { GoalStore } from "./GoalStore";
+import { ClientPool } from "./client/pool";
+import { getDefaultRewrite } from "./utils";
+
+type RewrittenGoals = {
+  /** The version of the document these goals are for. */
+  version: number,
+  rewrite: rpc.Rewrite,
+  goals: Promise<rpc.Goal[]>,
+};
+
+/** Display the type of each goal as an inlay hint after the goal. */
+export class GoalTypeHintsProvider implements InlayHintsProvider {
+  private readonly emitter: EventEmitter<void> = new EventEmitter();
+  readonly onDidChangeInlayHints: Event<void> = this.emitter.event;
+
+  /**
+   * Goals for each document at a normalisation level other than the default,
+   * which the {@link GoalStore} does not keep.
+   */
+  private readonly rewritten: Map<string, RewrittenGoals> = new Map();
+
+  constructor(
+    context: ExtensionContext,
+    private readonly clients: ClientPool,
+    private readonly agda: rpc.Connection<Uri>,
+    private readonly goals: GoalStore,
+  ) {
+    context.subscriptions.push(
+      this.emitter,
+      goals.onDidChangeGoals(uri => {
+        // The document has been reloaded, which may change its goals without changing its version.
+        this.rewritten.delete(uri.toString());
+        this.emitter.fire();
+      }),
+      workspace.onDidCloseTextDocument(d => this.rewritten.delete(d.uri.toString())),
+      workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration("agda.inlayHints.goalTypes") || e.affectsConfiguration("agda.goal.typeNormalisation")) {
+          this.emitter.fire();
+        }
+      }),
+    );
+  }
+
+  async provideInlayHints(document: TextDocument, range: Range): Promise<InlayHint[]> {
+    const config = workspace.getConfiguration("agda.inlayHints.goalTypes", document.uri);
+    if (!config.get<boolean>("enabled", true)) return [];
+
+    const maxLength = config.get<number>("maxLength", 40);
+    const rewrite = config.get<rpc.Rewrite | "Default">("normalisation", "Default");
+
+    // Share goals with the rest of the extension, unless we need a different normalisation level.
+    const goals = rewrite === "Default" || rewrite === getDefaultRewrite(document.uri)
+      ? await this.goals.get(document, true)
+      : await this.getRewritten(document, rewrite);
+
+    return goals.flatMap(({ goalType, goalRange }) => {
+      const goal = this.clients.protocol2CodeConverter.asRange(goalRange);
+      if (!range.contains(goal.end)) return [];
+
+      const type = docToText(goalType).replace(/\s+/g, " ").trim();
+      if (type === "") return [];
+
+      const label = maxLength > 0 && type.length > maxLength ? `${type.substring(0, maxLength - 1)}…` : type;
+
+      const hint = new InlayHint(goal.end, `: ${label}`, InlayHintKind.Type);
+      hint.paddingLeft = true;
+      hint.tooltip = new MarkdownString().appendCodeblock(docToText(goalType), "agda");
+      return [hint];
+    });
+  }
+
+  /** Get the goals in a document at a normalisation level, querying the server if they are not known. */
+  private getRewritten(document: TextDocument, rewrite: rpc.Rewrite): Promise<rpc.Goal[]> {
+    const { uri, version } = document;
+    const key = uri.toString();
+
+    const entry = this.rewritten.get(key);
+    if (entry && entry.version === version && entry.rewrite === rewrite) return entry.goals;
+
+    const goals = this.agda.postRequest(rpc.Query.AllGoals, { types: true, rewrite, uri });
+    this.rewritten.set(key, { version, rewrite, goals });
+    // Don't keep failures around, so that the next request tries again.
+    void goals.catch(() => {
+      if (this.rewritten.get(key)?.goals === goals) this.rewritten.delete(key);
+    });
+    return goals;
+  }
+}
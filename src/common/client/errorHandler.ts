@@ -0,0 +1,70 @@
+import { type Event, EventEmitter } from "vscode";
+import {
+  CloseAction, type CloseHandlerResult, ErrorAction, type ErrorHandler, type ErrorHandlerResult, type Message
+} from "vscode-languageclient";
+
+/** The delay before restarting after the first crash. This doubles with each subsequent crash. */
+const initialDelay = 500;
+
+/** The number of times the server is restarted before we give up. */
+const maxRestarts = 5;
+
+/** If the server stays up for this long, forget about any previous crashes. */
+const resetAfter = 3 * 60 * 1000;
+
+/**
+ * An {@link ErrorHandler} which restarts the server when it crashes, backing
+ * off exponentially, and records why it crashed.
+ */
+export class RestartingErrorHandler implements ErrorHandler {
+  private restarts = 0;
+  private lastCrash = 0;
+  private lastError?: string;
+
+  private readonly emitter: EventEmitter<string | undefined> = new EventEmitter();
+  /** Fired when the server crashes or fails to start, or is started again. */
+  readonly onDidChangeProblem: Event<string | undefined> = this.emitter.event;
+
+  /** Why the server last crashed or failed to start, if it has not been started since. */
+  public problem?: string;
+
+  error(error: Error, _message: Message | undefined, count: number | undefined): ErrorHandlerResult {
+    this.lastError = error.message;
+    return { action: count !== undefined && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown };
+  }
+
+  async closed(): Promise<CloseHandlerResult> {
+    const now = Date.now();
+    if (now - this.lastCrash > resetAfter) this.restarts = 0;
+    this.lastCrash = now;
+
+    this.setProblem(this.lastError ?? "The server exited unexpectedly.");
+    this.lastError = undefined;
+
+    if (this.restarts >= maxRestarts) {
+      return {
+        action: CloseAction.DoNotRestart,
+        message: `The Agda language server crashed ${this.restarts + 1} times, and will not be restarted. Use "Agda: Restart" to start it again.`,
+      };
+    }
+
+    const delay = initialDelay * 2 ** this.restarts;
+    this.restarts++;
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    return { action: CloseAction.Restart, handled: true };
+  }
+
+  /** Record a problem with the server, such as it failing to start. */
+  setProblem(problem: string | undefined) {
+    this.problem = problem;
+    this.emitter.fire(problem);
+  }
+
+  /** Forget about previous crashes, as the server is being started manually. */
+  reset() {
+    this.restarts = 0;
+    this.lastError = undefined;
+    this.setProblem(undefined);
+  }
+}
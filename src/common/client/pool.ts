@@ -0,0 +1,352 @@
+import * as vscode from "vscode";
+import type * as lsp from "vscode-languageclient";
+import {
+  State as ClientState, ExecuteCommandRequest, type LanguageClientOptions, type NotificationType, type RequestType
+} from "vscode-languageclient";
+import { createConverter as createCode2ProtocolConverter } from "vscode-languageclient/lib/common/codeConverter";
+import { createConverter as createProtocol2CodeConverter } from "vscode-languageclient/lib/common/protocolConverter";
+
+import { type AbstractLanguageClient as LanguageClient } from ".";
+import { agdaSelectorUnder } from "../utils";
+import { RestartingErrorHandler } from "./errorHandler";
+import { showServerProblem } from "./serverStatus";
+
+/** How documents are split between language servers. */
+type ServerScope = "workspaceFolder" | "library";
+
+/** A language server, responsible for all Agda documents under some root directory. */
+export interface AgdaServer {
+  readonly client: LanguageClient;
+  /** The directory this server is responsible for: a workspace folder or Agda library. */
+  readonly root: vscode.Uri;
+  /** A short name for the root, used to tell servers apart. */
+  readonly name: string;
+  /**
+   * The documents this server is responsible for. When libraries are nested,
+   * this also matches the documents of the inner libraries, so use
+   * {@link owns} to check which server is responsible for a document.
+   */
+  readonly selector: vscode.DocumentSelector;
+  readonly errorHandler: RestartingErrorHandler;
+  /** Determine if this server, rather than one for a nested library, is responsible for a document. */
+  readonly owns: (document: vscode.TextDocument) => Promise<boolean>;
+  /** Resources tied to this server, disposed of when the server is removed. */
+  readonly subscriptions: vscode.Disposable[];
+}
+
+/**
+ * Create a language client for this platform.
+ *
+ * @param clientOptions The options for the client, already scoped to the server's documents.
+ * @param root The directory the server is responsible for.
+ */
+export type CreateClient = (
+  clientOptions: LanguageClientOptions & { errorHandler: RestartingErrorHandler },
+  root: vscode.Uri,
+) => LanguageClient;
+
+/** Check the server for a root can be started, returning a description of the problem if not. */
+export type CheckServer = (root: vscode.Uri) => Promise<string | undefined>;
+
+const hasAgdaLib = async (dir: vscode.Uri): Promise<boolean> => {
+  try {
+    const entries = await vscode.workspace.fs.readDirectory(dir);
+    return entries.some(([name, type]) => type === vscode.FileType.File && name.endsWith(".agda-lib"));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Find the root of the server for a document. This is the enclosing workspace
+ * folder, or (if configured) the nearest directory containing an `.agda-lib`
+ * file. Documents outside any workspace folder are grouped by their directory.
+ */
+const findRoot = async (uri: vscode.Uri): Promise<vscode.Uri> => {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const directory = vscode.Uri.joinPath(uri, "..");
+
+  const scope = vscode.workspace.getConfiguration("agda", uri).get<ServerScope>("server.scope", "workspaceFolder");
+  if (scope === "library") {
+    for (let dir = directory; ; dir = vscode.Uri.joinPath(dir, "..")) {
+      if (await hasAgdaLib(dir)) return dir;
+
+      // Stop at the workspace folder, or the root of the file system.
+      if (folder && dir.toString() === folder.uri.toString()) break;
+      if (dir.path === vscode.Uri.joinPath(dir, "..").path) break;
+    }
+  }
+
+  return folder?.uri ?? directory;
+};
+
+/** Determine if a URI is inside (or the same as) a directory. */
+const isUnder = (uri: vscode.Uri, dir: vscode.Uri): boolean => {
+  const prefix = dir.toString().replace(/\/?$/, "/");
+  return uri.toString() === dir.toString() || uri.toString().startsWith(prefix);
+};
+
+/**
+ * The language servers for the current workspace, one for each workspace
+ * folder or Agda library.
+ *
+ * Servers are started lazily, the first time one of their documents is opened
+ * or queried. Like {@link lsp.BaseLanguageClient}, this provides converters
+ * and notification handlers, which are shared between all servers.
+ */
+export class ClientPool implements vscode.Disposable {
+  readonly code2ProtocolConverter = createCode2ProtocolConverter();
+  readonly protocol2CodeConverter = createProtocol2CodeConverter(undefined, false, false);
+
+  /** Servers, keyed by their root. */
+  private readonly servers: Map<string, AgdaServer> = new Map();
+  /** The root of each document we have seen, keyed by its URI. */
+  private readonly roots: Map<string, Promise<vscode.Uri>> = new Map();
+  /** The last attempt to start each server, keyed by its root. This resolves once the server is running. */
+  private readonly starting: Map<string, Promise<void>> = new Map();
+  /**
+   * Servers whose client failed to start. Such a client can neither be
+   * started nor stopped again, so is replaced with a new one.
+   */
+  private readonly failed: WeakSet<AgdaServer> = new WeakSet();
+  /**
+   * Handlers for each notification, shared between all servers. A client only
+   * supports one handler per notification, so we dispatch to these ourselves.
+   */
+  private readonly handlers: Map<string, {
+    type: NotificationType<unknown>,
+    handlers: Set<(params: unknown, client: LanguageClient) => void>,
+  }> = new Map();
+
+  private readonly emitter: vscode.EventEmitter<AgdaServer> = new vscode.EventEmitter();
+  /** Fired when a new server is created, before it is started. */
+  readonly onDidCreateServer: vscode.Event<AgdaServer> = this.emitter.event;
+
+  private readonly subscriptions: vscode.Disposable[] = [];
+
+  constructor(private readonly createClient: CreateClient, private readonly checkServer?: CheckServer) {
+    this.subscriptions.push(
+      vscode.workspace.onDidCloseTextDocument(d => this.roots.delete(d.uri.toString())),
+      // Stop the servers for any workspace folders which are removed.
+      vscode.workspace.onDidChangeWorkspaceFolders(({ removed }) => {
+        for (const server of this.all()) {
+          if (removed.some(folder => isUnder(server.root, folder.uri))) this.remove(server);
+        }
+        this.roots.clear();
+      }),
+    );
+  }
+
+  /** Get the root of the server responsible for a document. */
+  rootOf(uri: vscode.Uri): Promise<vscode.Uri> {
+    const key = uri.toString();
+    let root = this.roots.get(key);
+    if (!root) this.roots.set(key, root = findRoot(uri));
+    return root;
+  }
+
+  /** Get the server responsible for a document, creating and starting it if needed. */
+  async serverFor(uri: vscode.Uri): Promise<AgdaServer> {
+    const root = await this.rootOf(uri);
+    const key = root.toString();
+
+    let server = this.servers.get(key);
+    if (!server) {
+      this.servers.set(key, server = this.create(root));
+      void this.start(server, false);
+    }
+    return server;
+  }
+
+  /**
+   * Get the client responsible for a document, creating and starting it if
+   * needed. This waits for the server to start, and fails if it could not be.
+   */
+  async clientFor(uri: vscode.Uri): Promise<LanguageClient> {
+    const server = await this.serverFor(uri);
+    // Sending a request to a client which has not started would start it
+    // ourselves, skipping the check that the server can be run.
+    const key = server.root.toString();
+    await this.starting.get(key);
+    // The server may have been replaced while starting.
+    return (this.servers.get(key) ?? server).client;
+  }
+
+  /** Get the server with the given root, if it exists. */
+  serverAt(root: vscode.Uri): AgdaServer | undefined {
+    return this.servers.get(root.toString());
+  }
+
+  /** Get all servers which have been created. */
+  all(): AgdaServer[] {
+    return [...this.servers.values()];
+  }
+
+  /** Send a request to the server responsible for a document. */
+  async sendRequest<P, R, E>(uri: vscode.Uri, type: RequestType<P, R, E>, params: P, token?: vscode.CancellationToken): Promise<R> {
+    return (await this.clientFor(uri)).sendRequest(type, params, token);
+  }
+
+  /** Run one of the server's commands on a document. */
+  async executeCommand(
+    uri: vscode.Uri, command: string, params: { workDoneToken?: string } = {}, token?: vscode.CancellationToken,
+  ): Promise<unknown> {
+    return this.sendRequest(uri, ExecuteCommandRequest.type, {
+      ...params,
+      command,
+      arguments: [this.code2ProtocolConverter.asUri(uri)],
+    }, token);
+  }
+
+  /**
+   * Run one of the server's commands on a document, failing with a clear
+   * message if the server does not advertise it. Use this for commands which
+   * older versions of Agda do not provide.
+   */
+  async executeOptionalCommand(uri: vscode.Uri, command: string, token?: vscode.CancellationToken): Promise<unknown> {
+    const client = await this.clientFor(uri);
+    const commands = client.initializeResult?.capabilities.executeCommandProvider?.commands ?? [];
+    if (!commands.includes(command)) throw new Error(`This version of Agda does not support the "${command}" command.`);
+
+    return this.executeCommand(uri, command, {}, token);
+  }
+
+  /** Handle a notification from any server. */
+  onNotification<P>(type: NotificationType<P>, handler: (params: P, client: LanguageClient) => void): vscode.Disposable {
+    let entry = this.handlers.get(type.method);
+    if (!entry) {
+      this.handlers.set(type.method, entry = { type: type as NotificationType<unknown>, handlers: new Set() });
+      for (const { client } of this.all()) this.listen(client, entry.type);
+    }
+
+    const handlers = entry.handlers;
+    const untyped = handler as (params: unknown, client: LanguageClient) => void;
+    handlers.add(untyped);
+    return new vscode.Disposable(() => handlers.delete(untyped));
+  }
+
+  private listen(client: LanguageClient, type: NotificationType<unknown>) {
+    client.onNotification(type, params => {
+      for (const handler of this.handlers.get(type.method)?.handlers ?? []) handler(params, client);
+    });
+  }
+
+  /** Start (or restart) a server, telling the user if it could not be started. */
+  async start(server: AgdaServer, restart: boolean): Promise<void> {
+    if (this.failed.has(server)) server = this.replace(server);
+
+    const started = this.tryStart(server, restart);
+    this.starting.set(server.root.toString(), started);
+
+    try {
+      await started;
+    } catch (e) {
+      const problem = e instanceof Error ? e.message : String(e);
+      server.errorHandler.setProblem(problem);
+      if (await showServerProblem(server, problem)) await this.start(server, true);
+    }
+  }
+
+  /** Check a server can be run, and then start it. */
+  private async tryStart(server: AgdaServer, restart: boolean): Promise<void> {
+    const { client, root, errorHandler } = server;
+    errorHandler.reset();
+
+    const problem = await this.checkServer?.(root);
+    if (problem) throw new Error(problem);
+
+    try {
+      // Only a running client can be stopped, so otherwise just start it.
+      await (restart && client.state === ClientState.Running ? client.restart() : client.start());
+    } catch (e) {
+      this.failed.add(server);
+      throw e;
+    }
+  }
+
+  private create(root: vscode.Uri): AgdaServer {
+    const name = root.path.split("/").filter(x => x).pop() ?? root.toString();
+    const key = root.toString();
+
+    // Only handle documents under this root. When libraries are nested inside
+    // each other (or a workspace folder), several selectors may match the same
+    // document, so we also check which server owns a document before syncing
+    // it or asking the server about it.
+    const selector = agdaSelectorUnder(root);
+    const owns = async (document: vscode.TextDocument) => (await this.rootOf(document.uri)).toString() === key;
+    const ifOwned = async <R>(document: vscode.TextDocument, provide: () => vscode.ProviderResult<R>): Promise<R | null | undefined> =>
+      await owns(document) ? provide() : undefined;
+
+    const errorHandler = new RestartingErrorHandler();
+    const client = this.createClient({
+      // The client passes patterns through to VS Code as they are, so this may
+      // use relative patterns, which do not depend on how the root is written.
+      documentSelector: selector as lsp.DocumentSelector,
+      workspaceFolder: vscode.workspace.getWorkspaceFolder(root),
+      outputChannelName: `Agda Language Server (${name})`,
+      synchronize: {
+        configurationSection: "agda",
+      },
+      errorHandler,
+      middleware: {
+        didOpen: async (document, next) => { if (await owns(document)) await next(document); },
+        didChange: async (event, next) => { if (await owns(event.document)) await next(event); },
+        didSave: async (document, next) => { if (await owns(document)) await next(document); },
+        didClose: async (document, next) => { if (await owns(document)) await next(document); },
+        provideHover: (document, position, token, next) =>
+          ifOwned(document, () => next(document, position, token)),
+        provideDefinition: (document, position, token, next) =>
+          ifOwned(document, () => next(document, position, token)),
+        provideCompletionItem: (document, position, context, token, next) =>
+          ifOwned(document, () => next(document, position, context, token)),
+        provideCodeActions: (document, range, context, token, next) =>
+          ifOwned(document, () => next(document, range, context, token)),
+        provideCodeLenses: (document, token, next) =>
+          ifOwned(document, () => next(document, token)),
+        provideDocumentSymbols: (document, token, next) =>
+          ifOwned(document, () => next(document, token)),
+        provideInlayHints: (document, viewPort, token, next) =>
+          ifOwned(document, () => next(document, viewPort, token)),
+      },
+    }, root);
+
+    for (const { type } of this.handlers.values()) this.listen(client, type);
+
+    const server: AgdaServer = { client, root, name, selector, errorHandler, owns, subscriptions: [] };
+    this.emitter.fire(server);
+    return server;
+  }
+
+  /** Stop a server and forget about it, disposing of everything tied to it. */
+  private remove(server: AgdaServer) {
+    const key = server.root.toString();
+    this.servers.delete(key);
+    this.starting.delete(key);
+
+    for (const subscription of server.subscriptions) subscription.dispose();
+    // Disposing a client which failed to start fails, as it cannot be stopped.
+    server.client.dispose().catch(() => undefined);
+  }
+
+  /** Replace a server with a new one for the same root, which has not been started. */
+  private replace(server: AgdaServer): AgdaServer {
+    this.remove(server);
+
+    const replacement = this.create(server.root);
+    this.servers.set(server.root.toString(), replacement);
+    return replacement;
+  }
+
+  /** Stop all servers. */
+  async stop(): Promise<void> {
+    await Promise.all(this.all().map(({ client }) => client.stop()));
+  }
+
+  dispose() {
+    for (const subscription of this.subscriptions) subscription.dispose();
+    for (const server of this.servers.values()) {
+      for (const subscription of server.subscriptions) subscription.dispose();
+    }
+    this.emitter.dispose();
+  }
+}
@@ -1,25 +1,34 @@
 import * as vscode from "vscode";
-import { BaseLanguageClient, State as ClientState } from 'vscode-languageclient';
+import { State as ClientState } from 'vscode-languageclient';
 
-import { agdaSelector, assertNever } from '../utils';
+import { assertNever } from '../utils';
+import type { AgdaServer } from './pool';
 
 /**
  * Display the status of the server (and current Agda version) in the status bar.
  *
- * This is displayed as a LanguageStatusItem, so is not visible by default.
+ * This is displayed as a LanguageStatusItem, so is not visible by default. Each
+ * server has its own item, which is only shown for its documents.
  */
-export default (context: vscode.ExtensionContext, client: BaseLanguageClient): void => {
-  const serverStatus = vscode.languages.createLanguageStatusItem("agda.serverStatus", agdaSelector);
-  serverStatus.name = "Agda";
-  serverStatus.detail = "Agda Language Server";
-  context.subscriptions.push(serverStatus);
+export default (server: AgdaServer): void => {
+  const { client, errorHandler } = server;
+  const serverStatus = vscode.languages.createLanguageStatusItem(`agda.serverStatus.${server.root.toString()}`, server.selector);
+  serverStatus.name = `Agda (${server.name})`;
 
-  updateStatus(client, serverStatus);
+  const update = () => updateStatus(server, serverStatus);
+  update();
 
-  client.onDidChangeState(() => updateStatus(client, serverStatus));
+  server.subscriptions.push(
+    serverStatus,
+    client.onDidChangeState(update),
+    errorHandler.onDidChangeProblem(update),
+  );
 }
 
-const updateStatus = (client: BaseLanguageClient, serverStatus: vscode.LanguageStatusItem): void => {
+const updateStatus = ({ client, errorHandler, root, name }: AgdaServer, serverStatus: vscode.LanguageStatusItem): void => {
+  serverStatus.detail = `Agda Language Server (${name})`;
+  serverStatus.command = undefined;
+
   switch (client.state) {
     case ClientState.Starting:
       serverStatus.busy = true;
@@ -28,8 +37,10 @@ const updateStatus = (client: BaseLanguageClient, serverStatus: vscode.LanguageS
       break;
     case ClientState.Stopped:
       serverStatus.busy = false;
-      serverStatus.text = "Stopped";
-      serverStatus.severity = vscode.LanguageStatusSeverity.Warning;
+      serverStatus.text = errorHandler.problem ? "Crashed" : "Stopped";
+      if (errorHandler.problem) serverStatus.detail = errorHandler.problem;
+      serverStatus.severity = errorHandler.problem ? vscode.LanguageStatusSeverity.Error : vscode.LanguageStatusSeverity.Warning;
+      serverStatus.command = { title: "Restart", command: "agda.restart", arguments: [root] };
       break;
     case ClientState.Running:
       const info = client.initializeResult?.serverInfo;
@@ -42,3 +53,43 @@ const updateStatus = (client: BaseLanguageClient, serverStatus: vscode.LanguageS
       assertNever(client.state);
   }
 }
+
+/**
+ * Tell the user that the server could not be started, offering ways to fix it.
+ *
+ * Returns true if the user changed the Agda executable, and so the server
+ * should be started again.
+ */
+export const showServerProblem = async ({ client, root }: AgdaServer, problem: string): Promise<boolean> => {
+  const openSettings = "Open Settings", selectExecutable = "Select Executable", showOutput = "Show Output";
+  // In the browser the server runs in a web worker, so there's no executable to select.
+  const web = vscode.env.uiKind === vscode.UIKind.Web;
+  const choice = await vscode.window.showErrorMessage(
+    `Failed to start the Agda language server. ${problem}`,
+    ...(web ? [openSettings, showOutput] : [openSettings, selectExecutable, showOutput]),
+  );
+
+  switch (choice) {
+    case openSettings:
+      await vscode.commands.executeCommand("workbench.action.openSettings", web ? "agda.executable.webWorker" : "agda.executable");
+      return false;
+    case selectExecutable: {
+      const files = await vscode.window.showOpenDialog({ title: "Select the Agda executable", canSelectMany: false, openLabel: "Select" });
+      if (!files || files.length === 0) return false;
+
+      // Update the setting wherever it is currently defined, so that the new value takes effect.
+      const config = vscode.workspace.getConfiguration("agda", root);
+      const inspected = config.inspect("executable.path");
+      const target = inspected?.workspaceFolderValue !== undefined ? vscode.ConfigurationTarget.WorkspaceFolder
+        : inspected?.workspaceValue !== undefined ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global;
+      await config.update("executable.path", files[0].fsPath, target);
+      return true;
+    }
+    case showOutput:
+      client.outputChannel.show();
+      return false;
+    default:
+      return false;
+  }
+};
@@ -1,214 +1,221 @@
-import {
-  CancellationToken, DocumentSemanticTokensProvider, Event, EventEmitter,
-  ExtensionContext, SemanticTokens, TextDocument, languages, window
-} from "vscode";
+import { ExtensionContext, TextDocument, languages, window } from "vscode";
 import * as vscode from "vscode";
+import { ErrorCodes, ResponseError } from "vscode-languageclient";
 import { SemanticTokensFeature } from "vscode-languageclient/lib/common/semanticTokens";
 
-import {
-  LanguageClientOptions,
-  SemanticTokensRefreshRequest,
-  SemanticTokensRequest,
-} from "vscode-languageclient";
-import * as lsp from "vscode-languageclient";
-import { AbstractLanguageClient as LanguageClient } from "./client";
-
 import * as rpc from "../api/rpc";
 import { AgdaInfoviewProvider } from "./AgdaInfoviewProvider";
-import { AgdaGoals, AgdaHighlightingInit, AgdaInfoviewRefresh, AgdaQuery } from "../api/methods";
-import { isAgdaDocument, agdaSelector } from './utils';
+import { AgdaGoalTreeProvider } from "./AgdaGoalTreeProvider";
+import { GoalCodeLensProvider } from "./GoalCodeLensProvider";
+import { GoalStore } from "./GoalStore";
+import { GoalTypeHintsProvider } from "./GoalTypeHintsProvider";
+import { AgdaInfoviewRefresh, AgdaQuery } from "../api/methods";
+import { isAgdaDocument, agdaSelector, getDefaultRewrite, goToGoal } from './utils';
+import { type DocFormat, goalInfoToString } from "../api/doc";
 
 import registerServerStatus from './client/serverStatus';
-import { InputCompletionProvider, InputHoverProvider } from './input/providers';
-import { leader } from './input/data';
-
-class LanguageClientConnection implements rpc.Connection<vscode.Uri> {
-  constructor(private readonly client: LanguageClient) { }
-
-  postRequest<P, R>(query: rpc.Query<P, R>, params: P & { uri: vscode.Uri }): Promise<R> {
-    return this.client.sendRequest(AgdaQuery, {
-      ...params,
-      uri: this.client.code2ProtocolConverter.asUri(params.uri),
-      kind: query.kind
-    }) as Promise<R>;
-  }
-
-  private compare(p1: lsp.Position, p2: lsp.Position) {
-    return (p1.line >= p2.line) || (p1.line == p2.line && p1.character >= p2.character);
-  }
-
-  private contains(r: lsp.Range, p: lsp.Position) {
-    return this.compare(r.start, p) && this.compare(p, r.end);
+import { type CheckServer, ClientPool, type CreateClient } from './client/pool';
+import registerHighlighting from "./highlighting";
+import registerInput from './input';
+import registerInteraction from "./interaction";
+import registerReload from "./reload";
+
+export class LanguageClientConnection implements rpc.Connection<vscode.Uri> {
+  constructor(private readonly clients: ClientPool) { }
+
+  async postRequest<P, R>(query: rpc.Query<P, R>, params: P & { uri: vscode.Uri }, token?: vscode.CancellationToken): Promise<R> {
+    try {
+      return await this.clients.sendRequest(params.uri, AgdaQuery, {
+        ...params,
+        uri: this.clients.code2ProtocolConverter.asUri(params.uri),
+        kind: query.kind
+      }, token) as R;
+    } catch (e) {
+      // Older versions of Agda reject queries they don't know about as invalid.
+      if (e instanceof ResponseError && (e.code === ErrorCodes.MethodNotFound || e.code === ErrorCodes.InvalidParams)) {
+        throw new Error(`This version of Agda may not support the "${query.kind}" query: ${e.message}`);
+      }
+      throw e;
+    }
   }
+}
 
-  public async selectGoal(kind: 'next' | 'prev') {
-    const e = window.activeTextEditor;
-    if (!e || e.document.uri.scheme !== 'file' || e.selections.length != 1) return;
-    if (!e.selection.start.isEqual(e.selection.end)) return;
-
-    const cursor = e.selection.start;
-
-    const goals = await agda.postRequest(rpc.Query.AllGoals, { types: false, uri: e.document.uri });
+export let clients: ClientPool;
+export let agda: LanguageClientConnection;
+export let goals: GoalStore;
 
-    if (goals.length < 1) return;
+const selectGoal = async (kind: "next" | "prev") => {
+  const e = window.activeTextEditor;
+  if (!e || !isAgdaDocument(e.document) || e.selections.length != 1) return;
+  if (!e.selection.start.isEqual(e.selection.end)) return;
 
-    let goal: rpc.Goal | undefined;
+  const cursor = e.selection.start;
 
-    if (kind === 'next') {
-      // Seek from the start and find the first goal that (a) doesn't
-      // contain the cursor and (b) starts after the end of the
-      // selection
-      goal = goals.find(({ goalRange }) =>
-        !this.contains(goalRange, cursor) && this.compare(goalRange.start, cursor));
+  const ranges = (await goals.get(e.document)).map(({ goalRange }) => clients.protocol2CodeConverter.asRange(goalRange));
 
-      // If we didn't find any then wrap around to the end
-      if (!goal) goal = goals[0];
-    } else {
-      goals.reverse();
+  if (ranges.length < 1) return;
 
-      // Seek from the end and find the last goal that (a) doesn't
-      // contain the cursor and (b) ends after the start of the
-      // selection
-      goal = goals.find(({ goalRange }) =>
-        !this.contains(goalRange, cursor) && this.compare(cursor, goalRange.end));
-
-      // If we didn't find any then wrap around to the end
-      if (!goal) goal = goals[0];
-    }
-
-    // If we didn't find any then either there are no goals or they're all contained in the selection
-    if (!goal) return;
-
-    e.revealRange(client.protocol2CodeConverter.asRange(goal.goalRange))
-    e.selection = new vscode.Selection(
-      client.protocol2CodeConverter.asPosition(goal.goalRange.start),
-      client.protocol2CodeConverter.asPosition(goal.goalRange.end),
-    );
-  }
-}
-export let client: LanguageClient;
-export let agda: LanguageClientConnection;
+  let range: vscode.Range | undefined;
 
-class AgdaTokenProvider implements DocumentSemanticTokensProvider {
-  private readonly emitter: EventEmitter<void> = new EventEmitter();
-  readonly onDidChangeSemanticTokens: Event<void> = this.emitter.event;
+  if (kind === "next") {
+    // Seek from the start and find the first goal that (a) doesn't
+    // contain the cursor and (b) starts after the end of the
+    // selection
+    range = ranges.find(r => !r.contains(cursor) && r.start.isAfterOrEqual(cursor));
 
-  constructor(private readonly client: LanguageClient) {
-    client.onRequest(SemanticTokensRefreshRequest.type, () => {
-      this.emitter.fire();
-    });
-  }
+    // If we didn't find any then wrap around to the start
+    if (!range) range = ranges[0];
+  } else {
+    ranges.reverse();
 
-  async provideDocumentSemanticTokens(document: TextDocument, _token: CancellationToken): Promise<SemanticTokens> {
-    const tokens = await this.client.sendRequest(SemanticTokensRequest.type, {
-      textDocument: client.code2ProtocolConverter.asTextDocumentIdentifier(document)
-    });
+    // Seek from the end and find the last goal that (a) doesn't
+    // contain the cursor and (b) ends before the start of the
+    // selection
+    range = ranges.find(r => !r.contains(cursor) && r.end.isBeforeOrEqual(cursor));
 
-    const toks = await client.protocol2CodeConverter.asSemanticTokens(tokens);
-    return toks!;
+    // If we didn't find any then wrap around to the end
+    if (!range) range = ranges[0];
   }
 
-  async provideDocumentSemanticTokensEdits(document: TextDocument, _previous: string, token: CancellationToken): Promise<SemanticTokens> {
-    return this.provideDocumentSemanticTokens(document, token);
-  }
-}
+  e.revealRange(range);
+  e.selection = new vscode.Selection(range.start, range.end);
+};
 
 const highlight = window.createTextEditorDecorationType({
   backgroundColor: new vscode.ThemeColor("editor.selectionHighlightBackground")
 });
 
-let decorations: vscode.TextEditorDecorationType[] = [];
-
-const decorateGoals = (uri: vscode.Uri, goals: rpc.Goal[]) => {
-  const editor = window.visibleTextEditors.find(e => e.document.uri.toString() === uri.toString());
-  if (!editor) return;
-
-  decorations.forEach(d => d.dispose());
-  decorations = [];
+const goalNumber = window.createTextEditorDecorationType({
+  after: {
+    color: new vscode.ThemeColor("charts.yellow"),
+    backgroundColor: new vscode.ThemeColor("editor.selectionHighlightBackground")
+  }
+});
 
+/** Highlight the goals in an editor, and label them with their number. */
+const decorateGoals = (editor: vscode.TextEditor, goals: rpc.Goal[]) => {
   const rs: vscode.Range[] = [];
+  const numbers: vscode.DecorationOptions[] = [];
 
   goals.forEach(({ goalId, goalRange }) => {
-    const r = client.protocol2CodeConverter.asRange(goalRange);
-    rs.push(r);
-    const dec = window.createTextEditorDecorationType({
-      after: {
-        contentText: goalId.toString(),
-        color: new vscode.ThemeColor("charts.yellow"),
-        backgroundColor: new vscode.ThemeColor('editor.selectionHighlightBackground')
-      }
-    });
-    decorations.push(dec);
-    editor.setDecorations(dec, [r]);
+    const range = clients.protocol2CodeConverter.asRange(goalRange);
+    rs.push(range);
+    numbers.push({ range, renderOptions: { after: { contentText: goalId.toString() } } });
   });
 
   editor.setDecorations(highlight, rs);
+  editor.setDecorations(goalNumber, numbers);
 };
 
-export async function activate(context: ExtensionContext, createClient: (clientOptions: LanguageClientOptions) => LanguageClient) {
-  // Register our input provider
-  context.subscriptions.push(
-    languages.registerHoverProvider(agdaSelector, new InputHoverProvider()),
-    languages.registerCompletionItemProvider(agdaSelector, new InputCompletionProvider(), leader),
-  );
+/** Decorate every visible editor showing a document. */
+const decorateDocument = async (document: vscode.TextDocument) => {
+  const editors = window.visibleTextEditors.filter(e => e.document === document);
+  if (editors.length === 0) return;
 
-  // Options to control the language client
-  const clientOptions: LanguageClientOptions = {
-    documentSelector: agdaSelector,
-    synchronize: {
-      configurationSection: "agda",
-    }
-  };
+  const documentGoals = await goals.get(document);
+  for (const editor of editors) decorateGoals(editor, documentGoals);
+};
 
-  // Create the language client and start the client.
-  client = createClient(clientOptions);
-  agda = new LanguageClientConnection(client);
+/**
+ * Activate the extension.
+ *
+ * @param createClient Create a language client for this platform.
+ * @param checkServer Check a server can be started, returning a description of the problem if not.
+ */
+export function activate(
+  context: ExtensionContext,
+  createClient: CreateClient,
+  checkServer?: CheckServer,
+): void {
+  // Register our input provider
+  registerInput(context);
 
-  registerServerStatus(context, client);
+  // Servers are created as their documents are opened, one for each workspace
+  // folder or library.
+  clients = new ClientPool(createClient, checkServer);
+  agda = new LanguageClientConnection(clients);
+  goals = new GoalStore(context, clients, agda);
+  context.subscriptions.push(clients);
 
   SemanticTokensFeature.prototype.register = function () { };
-  client.onNotification(AgdaHighlightingInit, ({ legend }) => {
-    const decoded = client.protocol2CodeConverter.asSemanticTokensLegend(legend);
-    context.subscriptions.push(
-      languages.registerDocumentSemanticTokensProvider(agdaSelector, new AgdaTokenProvider(client), decoded)
-    );
+  clients.onDidCreateServer(server => {
+    registerServerStatus(server);
+    registerHighlighting(server);
   });
 
   // Register our infoview.
-  const infoview = new AgdaInfoviewProvider(context, client);
-  context.subscriptions.push(window.registerWebviewViewProvider(AgdaInfoviewProvider.viewType, infoview));
+  const infoview = new AgdaInfoviewProvider(context, clients);
+  registerInteraction(context, clients, agda, goals, infoview);
+  context.subscriptions.push(
+    window.registerWebviewViewProvider(AgdaInfoviewProvider.viewType, infoview),
+    vscode.commands.registerCommand("agda.pinInfoview", () => infoview.pinCurrent()),
+  );
+
+  // Register the tree of goals across all documents. This is only shown once
+  // the extension is active, so that it does not activate the extension itself.
+  void vscode.commands.executeCommand("setContext", "agda.active", true);
+  context.subscriptions.push(
+    window.registerTreeDataProvider(AgdaGoalTreeProvider.viewType, new AgdaGoalTreeProvider(context, clients, goals)),
+    vscode.commands.registerCommand("agda.goToGoal", goToGoal),
+  );
+
+  context.subscriptions.push(
+    languages.registerInlayHintsProvider(agdaSelector, new GoalTypeHintsProvider(context, clients, agda, goals)),
+  );
+
+  // Offer the goal actions above each goal. These move the cursor into the
+  // goal, so the action behaves exactly as if it were run from its keybinding.
+  context.subscriptions.push(
+    languages.registerCodeLensProvider(agdaSelector, new GoalCodeLensProvider(context, clients, goals)),
+    vscode.commands.registerCommand("agda.goalAction", async (uri: vscode.Uri, range: vscode.Range, kind: string) => {
+      await window.showTextDocument(uri, { selection: new vscode.Range(range.start, range.start) });
+      await vscode.commands.executeCommand("editor.action.codeAction", { kind });
+    }),
+    vscode.commands.registerCommand("agda.showGoal", (uri: vscode.Uri, goal: number) => {
+      infoview.reveal();
+      infoview.goal(goal, uri);
+    }),
+  );
 
   window.onDidChangeTextEditorSelection(e => {
     if (!isAgdaDocument(e.textEditor.document)) return;
 
+    // These requests fail if the server could not be started, which the pool
+    // has already told the user about, so their errors are ignored below.
     if (e.selections.length === 1) {
-      void agda.postRequest(rpc.Query.GoalAt, {
-        position: e.textEditor.selections[0].start,
-        uri: e.textEditor.document.uri,
-      }).then(ip => {
-        if (typeof ip !== "number") {
+      void goals.goalAt(e.textEditor.document, e.textEditor.selections[0].start).then(goal => {
+        if (!goal) {
           infoview.allGoals(e.textEditor.document.uri);
         } else {
-          infoview.goal(ip, e.textEditor.document.uri);
+          infoview.goal(goal.goalId, e.textEditor.document.uri);
         }
-      });
+      }).catch(() => undefined);
     }
   });
 
   const status = window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
   status.tooltip = "Agda";
   context.subscriptions.push(status);
-  client.onNotification(AgdaInfoviewRefresh, pUrl => {
-    const uri = client.protocol2CodeConverter.asUri(pUrl);
+  clients.onNotification(AgdaInfoviewRefresh, pUrl => {
+    const uri = clients.protocol2CodeConverter.asUri(pUrl);
     infoview.refresh(uri);
 
     void agda.postRequest(rpc.Query.ModuleName, { uri }).then(mod => {
       status.text = `$(check) ${mod}`;
       status.show();
-    });
+    }).catch(() => undefined);
   });
 
-  client.onNotification(AgdaGoals, resp => decorateGoals(client.protocol2CodeConverter.asUri(resp.uri), resp.goals));
+  goals.onDidChangeGoals(uri => {
+    const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    if (document) void decorateDocument(document).catch(() => undefined);
+  });
+
+  window.onDidChangeVisibleTextEditors(editors => {
+    for (const editor of editors) {
+      if (isAgdaDocument(editor.document)) void decorateDocument(editor.document).catch(() => undefined);
+    }
+  });
 
   window.onDidChangeActiveTextEditor(e => {
     if (!e || !isAgdaDocument(e.document)) {
@@ -221,42 +228,90 @@ export async function activate(context: ExtensionContext, createClient: (clientO
       const uri = e.document.uri;
       void agda.postRequest(rpc.Query.ModuleName, { uri }).then(async mod => {
         status.text = `$(check) ${mod}`;
-        decorateGoals(uri, await agda.postRequest(rpc.Query.AllGoals, { types: false, uri }));
-      });
+        await decorateDocument(e.document);
+      }).catch(() => status.hide());
     }
   });
 
   context.subscriptions.push(
-    vscode.commands.registerCommand('agda.nextGoal', () => agda.selectGoal('next')),
-    vscode.commands.registerCommand('agda.prevGoal', () => agda.selectGoal('prev'))
+    vscode.commands.registerCommand('agda.nextGoal', () => selectGoal('next')),
+    vscode.commands.registerCommand('agda.prevGoal', () => selectGoal('prev'))
   );
 
-  context.subscriptions.push(vscode.commands.registerCommand('agda.restart', async () => {
+  const evaluate = async (mode: rpc.EvaluationMode) => {
     const editor = window.activeTextEditor;
     if (!editor || !isAgdaDocument(editor.document)) return;
 
-    await editor.document.save();
-    await client.restart();
-  }));
+    const uri = editor.document.uri;
+    const goal = (await goals.goalAt(editor.document, editor.selection.start))?.goalId ?? null;
+    const expr = await window.showInputBox({
+      title: mode === "InferType" ? "Infer type" : "Compute normal form",
+      prompt: goal === null ? "Expression to evaluate at the top level" : `Expression to evaluate in goal ?${goal}`,
+      value: editor.document.getText(editor.selection),
+    });
+    if (!expr) return;
 
-  context.subscriptions.push(vscode.commands.registerCommand('agda.reload', async () => {
+    infoview.evaluate(uri, goal, mode, expr);
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("agda.inferType", () => evaluate("InferType")),
+    vscode.commands.registerCommand("agda.computeNormalForm", () => evaluate("ComputeNormalForm")),
+  );
+
+  const copyGoal = async () => {
     const editor = window.activeTextEditor;
     if (!editor || !isAgdaDocument(editor.document)) return;
-    await editor.document.save();
 
-    await client.sendRequest(lsp.ExecuteCommandRequest.type, {
-      command: 'reload',
-      arguments: [client.code2ProtocolConverter.asUri(editor.document.uri)]
-    })
+    const uri = editor.document.uri;
+    const goal = await goals.goalAt(editor.document, editor.selection.start);
+    if (!goal) {
+      void window.showInformationMessage("There is no goal under the cursor.");
+      return;
+    }
+
+    const picked = await window.showQuickPick<vscode.QuickPickItem & { format: DocFormat }>([
+      { label: "Plain text", format: "text" },
+      { label: "Markdown", format: "markdown" },
+      { label: "LaTeX", format: "latex", detail: "Using the macros from agda.sty" },
+    ], { title: `Copy goal ?${goal.goalId}` });
+    if (!picked) return;
+
+    const info = await agda.postRequest(rpc.Query.GoalInfo, { uri, goal: goal.goalId, rewrite: getDefaultRewrite(uri) });
+    await vscode.env.clipboard.writeText(goalInfoToString(info, picked.format));
+    window.setStatusBarMessage(`Copied goal ?${goal.goalId} to clipboard`, 2000);
+  };
+
+  context.subscriptions.push(vscode.commands.registerCommand("agda.copyGoal", copyGoal));
+
+  // Restart the server with the given root (e.g. from its status item), or
+  // otherwise the server for the active document. If there is no Agda
+  // document open, all servers are restarted.
+  context.subscriptions.push(vscode.commands.registerCommand('agda.restart', async (root?: vscode.Uri) => {
+    const editor = window.activeTextEditor;
+    const document = editor && isAgdaDocument(editor.document) ? editor.document : undefined;
+    if (document) await document.save();
+
+    const server = root ? clients.serverAt(root) : document && await clients.serverFor(document.uri);
+    const servers = server ? [server] : clients.all();
+    await Promise.all(servers.map(s => clients.start(s, true)));
   }));
 
-  // Start the client. This will also launch the server
-  await client.start();
+  registerReload(context, clients);
+
+  // Start the servers for any open documents, and then for each document as
+  // it is opened. We don't wait for this, as the user may need to fix the
+  // server before it can start.
+  const openDocument = (document: TextDocument) => {
+    if (isAgdaDocument(document)) void clients.serverFor(document.uri);
+  };
+  vscode.workspace.textDocuments.forEach(openDocument);
+  context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(openDocument));
 }
 
 export function deactivate(): Thenable<void> | undefined {
-  if (!client) {
+  if (!clients) {
     return undefined;
   }
-  return client.stop();
+  return clients.stop();
 }
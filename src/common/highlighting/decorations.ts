@@ -0,0 +1,159 @@
+import {
+  CancellationTokenSource, type Disposable, type DocumentSelector, Range, type TextDocument,
+  type TextEditorDecorationType, ThemeColor, languages, window, workspace
+} from "vscode";
+
+import { type AgdaTokenProvider } from "./provider";
+
+/**
+ * The colour (contributed in package.json) used for each token type. We
+ * accept both the names used by Agda and the standard LSP token types which
+ * the server may use instead.
+ */
+const tokenColours: Record<string, string> = {
+  comment: "agda.comment",
+  keyword: "agda.keyword",
+  string: "agda.string",
+  number: "agda.number",
+  interactionPoint: "agda.hole",
+  hole: "agda.hole",
+  symbol: "agda.symbol",
+  operator: "agda.symbol",
+  primitiveType: "agda.primitiveType",
+  bound: "agda.bound",
+  variable: "agda.bound",
+  generalizable: "agda.generalizable",
+  inductiveCons: "agda.constructorInductive",
+  enumMember: "agda.constructorInductive",
+  coinductiveCons: "agda.constructorCoinductive",
+  datatype: "agda.datatype",
+  type: "agda.datatype",
+  field: "agda.field",
+  property: "agda.field",
+  function: "agda.function",
+  module: "agda.module",
+  namespace: "agda.module",
+  postulate: "agda.postulate",
+  primitive: "agda.primitive",
+  record: "agda.record",
+  struct: "agda.record",
+  argument: "agda.argument",
+  parameter: "agda.argument",
+  macro: "agda.macro",
+  pragma: "agda.pragma",
+};
+
+/** How long to wait after a document is edited before re-colouring it. */
+const editDelay = 300;
+
+/**
+ * Colours documents by painting each semantic token with the `agda.*` theme
+ * colours, rather than relying on the theme's semantic highlighting. This
+ * means Agda looks the same in every theme.
+ */
+export class TokenDecorator implements Disposable {
+  private readonly decorations: Map<string, TextEditorDecorationType> = new Map();
+  /** Documents waiting to be re-coloured after an edit, keyed by their URI. */
+  private readonly pending: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  /** The request for each document's tokens which is in progress, keyed by its URI. */
+  private readonly requests: Map<string, CancellationTokenSource> = new Map();
+  private readonly subscriptions: Disposable[];
+  private enabled = false;
+
+  constructor(private readonly provider: AgdaTokenProvider, private readonly selector: DocumentSelector) {
+    this.subscriptions = [
+      provider.onDidChangeSemanticTokens(() => this.decorateAll()),
+      window.onDidChangeVisibleTextEditors(() => this.decorateAll()),
+      // Every edit changes the tokens, so wait for the user to stop typing
+      // rather than asking the server for all of them on every keystroke.
+      workspace.onDidChangeTextDocument(({ document }) => {
+        if (!this.enabled) return;
+
+        const key = document.uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.set(key, setTimeout(() => {
+          this.pending.delete(key);
+          void this.decorate(document);
+        }, editDelay));
+      }),
+    ];
+  }
+
+  /** Start or stop decorating editors. */
+  setEnabled(enabled: boolean) {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+
+    if (enabled) {
+      this.decorateAll();
+    } else {
+      for (const timeout of this.pending.values()) clearTimeout(timeout);
+      this.pending.clear();
+      for (const decoration of this.decorations.values()) decoration.dispose();
+      this.decorations.clear();
+    }
+  }
+
+  private decoration(colour: string): TextEditorDecorationType {
+    let decoration = this.decorations.get(colour);
+    if (!decoration) {
+      decoration = window.createTextEditorDecorationType({ color: new ThemeColor(colour) });
+      this.decorations.set(colour, decoration);
+    }
+    return decoration;
+  }
+
+  private decorateAll() {
+    for (const document of new Set(window.visibleTextEditors.map(e => e.document))) void this.decorate(document);
+  }
+
+  /** Colour every visible editor showing a document. */
+  private async decorate(document: TextDocument) {
+    if (!this.enabled || languages.match(this.selector, document) === 0) return;
+
+    // Only the latest request for a document is needed.
+    const key = document.uri.toString();
+    this.requests.get(key)?.cancel();
+    const source = new CancellationTokenSource();
+    this.requests.set(key, source);
+
+    const version = document.version;
+    const tokens = await this.provider.provideDocumentSemanticTokens(document, source.token)
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.requests.get(key) === source) this.requests.delete(key);
+        source.dispose();
+      });
+
+    // Ignore the tokens if the document has since changed.
+    const legend = this.provider.legend;
+    if (!tokens || !legend || !this.enabled || document.version !== version) return;
+
+    const ranges: Map<string, Range[]> = new Map();
+    for (const colour of this.decorations.keys()) ranges.set(colour, []);
+
+    const data = tokens.data;
+    let line = 0, char = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      line += data[i];
+      char = data[i] === 0 ? char + data[i + 1] : data[i + 1];
+
+      const colour = tokenColours[legend.tokenTypes[data[i + 3]]];
+      if (!colour) continue;
+
+      let colourRanges = ranges.get(colour);
+      if (!colourRanges) ranges.set(colour, colourRanges = []);
+      colourRanges.push(new Range(line, char, line, char + data[i + 2]));
+    }
+
+    for (const editor of window.visibleTextEditors) {
+      if (editor.document !== document) continue;
+      for (const [colour, colourRanges] of ranges) editor.setDecorations(this.decoration(colour), colourRanges);
+    }
+  }
+
+  dispose() {
+    this.setEnabled(false);
+    for (const subscription of this.subscriptions) subscription.dispose();
+  }
+}
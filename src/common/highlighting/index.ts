@@ -0,0 +1,56 @@
+import { type Disposable, languages, workspace } from "vscode";
+
+import { AgdaHighlightingInit } from "../../api/methods";
+import { type AgdaServer } from "../client/pool";
+import { TokenDecorator } from "./decorations";
+import { AgdaTokenProvider } from "./provider";
+
+/** How Agda documents are coloured. */
+type HighlightingMode = "semanticTokens" | "decorations";
+
+const getMode = (): HighlightingMode =>
+  workspace.getConfiguration("agda").get<HighlightingMode>("highlighting.mode", "semanticTokens");
+
+/**
+ * Register semantic highlighting for a server.
+ *
+ * This is registered once per server, and re-registered when the server
+ * sends a new legend or the highlighting mode is changed.
+ */
+export default ({ client, selector, owns, subscriptions }: AgdaServer): void => {
+  const provider = new AgdaTokenProvider(client, owns);
+  const decorator = new TokenDecorator(provider, selector);
+
+  let registration: Disposable[] = [];
+  const register = () => {
+    for (const r of registration) r.dispose();
+    registration = [];
+
+    const legend = provider.legend;
+    if (!legend) return;
+
+    const mode = getMode();
+    if (mode === "semanticTokens") {
+      registration = [
+        languages.registerDocumentSemanticTokensProvider(selector, provider, legend),
+        languages.registerDocumentRangeSemanticTokensProvider(selector, provider, legend),
+      ];
+    }
+    decorator.setEnabled(mode === "decorations");
+  };
+
+  subscriptions.push(
+    provider,
+    decorator,
+    { dispose: () => { for (const r of registration) r.dispose(); } },
+    client.onNotification(AgdaHighlightingInit, ({ legend }) => {
+      // The server sends its legend each time it starts, once the client has
+      // initialised its own refresh handler, so we can safely replace it.
+      provider.handleRefresh();
+      if (provider.setLegend(client.protocol2CodeConverter.asSemanticTokensLegend(legend))) register();
+    }),
+    workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("agda.highlighting.mode")) register();
+    }),
+  );
+};
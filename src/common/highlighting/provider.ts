@@ -0,0 +1,262 @@
+import {
+  type CancellationToken, CancellationTokenSource, type Disposable, type DocumentRangeSemanticTokensProvider, type DocumentSemanticTokensProvider,
+  type Event, EventEmitter, type Range, SemanticTokens, type SemanticTokensEdit, SemanticTokensEdits,
+  type SemanticTokensLegend, type TextDocument, workspace
+} from "vscode";
+import {
+  SemanticTokensDeltaRequest, SemanticTokensRangeRequest, SemanticTokensRefreshRequest, SemanticTokensRequest, State
+} from "vscode-languageclient";
+
+import { type AbstractLanguageClient as LanguageClient } from "../client";
+
+type CachedTokens = {
+  /** The version of the document these tokens are for. */
+  version: number,
+  resultId?: string,
+  data: Uint32Array,
+  /** Whether the server has asked us to refresh tokens since these were computed. */
+  stale: boolean,
+};
+
+/** A request for the tokens of a whole document, shared between everyone waiting for them. */
+type FullRequest = {
+  /** The version of the document being requested. */
+  version: number,
+  tokens: Promise<SemanticTokens | undefined>,
+  source: CancellationTokenSource,
+  /** The number of callers which have not cancelled. */
+  waiting: number,
+};
+
+/** Apply a set of edits to a token array. Each edit refers to offsets in the original array. */
+const applyEdits = (data: Uint32Array, edits: readonly SemanticTokensEdit[]): Uint32Array => {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  const length = sorted.reduce((n, { deleteCount, data }) => n - deleteCount + (data?.length ?? 0), data.length);
+
+  const result = new Uint32Array(length);
+  let from = 0, to = 0;
+  for (const { start, deleteCount, data: inserted } of sorted) {
+    result.set(data.subarray(from, start), to);
+    to += start - from;
+    if (inserted) {
+      result.set(inserted, to);
+      to += inserted.length;
+    }
+    from = start + deleteCount;
+  }
+  result.set(data.subarray(from), to);
+
+  return result;
+};
+
+/** Extract the tokens on the lines of a range, re-encoding them relative to each other. */
+const sliceTokens = (data: Uint32Array, range: Range): SemanticTokens => {
+  const result: number[] = [];
+  let line = 0, char = 0, lastLine = 0, lastChar = 0;
+
+  for (let i = 0; i < data.length; i += 5) {
+    line += data[i];
+    char = data[i] === 0 ? char + data[i + 1] : data[i + 1];
+
+    if (line < range.start.line) continue;
+    if (line > range.end.line) break;
+
+    result.push(line - lastLine, line === lastLine ? char - lastChar : char, data[i + 2], data[i + 3], data[i + 4]);
+    lastLine = line;
+    lastChar = char;
+  }
+
+  return new SemanticTokens(new Uint32Array(result));
+};
+
+/**
+ * Provides semantic tokens from a language server.
+ *
+ * Tokens are cached for each version of a document, so that re-rendering or
+ * scrolling does not need to ask the server again. Where the server supports
+ * it, we request only the changes since the tokens we have cached, or the
+ * tokens in the visible range.
+ *
+ * There is one provider for each server, which lives as long as the server
+ * does. The server tells us its legend when it starts, which may change if it
+ * is restarted (e.g. with a different version of Agda). When libraries are
+ * nested, several providers match the same document, so each only provides
+ * tokens for the documents its server owns.
+ */
+export class AgdaTokenProvider implements DocumentSemanticTokensProvider, DocumentRangeSemanticTokensProvider, Disposable {
+  private readonly emitter: EventEmitter<void> = new EventEmitter();
+  readonly onDidChangeSemanticTokens: Event<void> = this.emitter.event;
+
+  private readonly cache: Map<string, CachedTokens> = new Map();
+  /** Requests for the tokens of each document which are still running, keyed by its URI. */
+  private readonly requests: Map<string, FullRequest> = new Map();
+  private readonly subscriptions: Disposable[];
+  private refreshHandler?: Disposable;
+
+  /** The legend of the tokens returned by the server, once it has told us. */
+  public legend?: SemanticTokensLegend;
+
+  constructor(
+    private readonly client: LanguageClient,
+    private readonly owns: (document: TextDocument) => Promise<boolean>,
+  ) {
+    this.subscriptions = [
+      this.emitter,
+      workspace.onDidCloseTextDocument(d => this.cache.delete(d.uri.toString())),
+    ];
+    if (client.state === State.Running) this.handleRefresh();
+  }
+
+  /**
+   * Listen for the server asking us to refresh tokens.
+   *
+   * The client's built-in semantic tokens support registers its own refresh
+   * handler each time the client's features are initialised, replacing any
+   * handler we registered before. This happens after the client's state
+   * becomes running, so this should be called once the server has started,
+   * such as when it sends its legend.
+   */
+  handleRefresh() {
+    this.refreshHandler?.dispose();
+    this.refreshHandler = this.client.onRequest(SemanticTokensRefreshRequest.type, () => {
+      for (const tokens of this.cache.values()) tokens.stale = true;
+      // Requests already running may have missed the change, so don't share them.
+      this.requests.clear();
+      this.emitter.fire();
+    });
+  }
+
+  /**
+   * Set the legend used by the server, throwing away any tokens using the old
+   * one. Returns false if the legend is unchanged.
+   */
+  setLegend(legend: SemanticTokensLegend): boolean {
+    if (this.legend && JSON.stringify(this.legend) === JSON.stringify(legend)) return false;
+
+    this.legend = legend;
+    this.cache.clear();
+    this.emitter.fire();
+    return true;
+  }
+
+  private get capabilities() {
+    return this.client.initializeResult?.capabilities.semanticTokensProvider;
+  }
+
+  /** Get the cached tokens for the current version of a document, if still valid. */
+  private cached(document: TextDocument): CachedTokens | undefined {
+    const tokens = this.cache.get(document.uri.toString());
+    return tokens && !tokens.stale && tokens.version === document.version ? tokens : undefined;
+  }
+
+  private store(document: TextDocument, version: number, tokens: SemanticTokens): SemanticTokens {
+    this.cache.set(document.uri.toString(), { version, resultId: tokens.resultId, data: tokens.data, stale: false });
+    return tokens;
+  }
+
+  async provideDocumentSemanticTokens(document: TextDocument, token: CancellationToken): Promise<SemanticTokens | undefined> {
+    if (!await this.owns(document)) return undefined;
+
+    const cached = this.cached(document);
+    if (cached) return new SemanticTokens(cached.data, cached.resultId);
+
+    // VS Code may ask for the whole document and a range of it at the same
+    // time, so share one request between them.
+    const key = document.uri.toString();
+    let request = this.requests.get(key);
+    if (!request || request.version !== document.version) {
+      const source = new CancellationTokenSource();
+      const tokens = this.requestTokens(document, source.token).finally(() => {
+        if (this.requests.get(key)?.source === source) this.requests.delete(key);
+        source.dispose();
+      });
+      request = { version: document.version, tokens, source, waiting: 0 };
+      this.requests.set(key, request);
+    }
+
+    // Only cancel the request once nobody is waiting for it.
+    const shared = request;
+    shared.waiting++;
+    const listener = token.onCancellationRequested(() => {
+      if (--shared.waiting > 0) return;
+      if (this.requests.get(key) === shared) this.requests.delete(key);
+      shared.source.cancel();
+    });
+
+    try {
+      return await shared.tokens;
+    } finally {
+      listener.dispose();
+    }
+  }
+
+  /** Request the tokens for a whole document, and cache them. */
+  private async requestTokens(document: TextDocument, token: CancellationToken): Promise<SemanticTokens | undefined> {
+    const version = document.version;
+    const tokens = await this.client.protocol2CodeConverter.asSemanticTokens(await this.client.sendRequest(SemanticTokensRequest.type, {
+      textDocument: this.client.code2ProtocolConverter.asTextDocumentIdentifier(document)
+    }, token), token);
+
+    return tokens && this.store(document, version, tokens);
+  }
+
+  async provideDocumentSemanticTokensEdits(
+    document: TextDocument, previousResultId: string, token: CancellationToken
+  ): Promise<SemanticTokens | SemanticTokensEdits | undefined> {
+    if (!await this.owns(document)) return undefined;
+
+    const cached = this.cached(document);
+    if (cached) {
+      return cached.resultId === previousResultId
+        ? new SemanticTokensEdits([], cached.resultId)
+        : new SemanticTokens(cached.data, cached.resultId);
+    }
+
+    // We can only apply a delta if we still have the tokens it is relative to.
+    const previous = this.cache.get(document.uri.toString());
+    const full = this.capabilities?.full;
+    if (!previous || previous.resultId !== previousResultId || typeof full !== "object" || !full.delta) {
+      return this.provideDocumentSemanticTokens(document, token);
+    }
+
+    const version = document.version;
+    const result = await this.client.sendRequest(SemanticTokensDeltaRequest.type, {
+      textDocument: this.client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+      previousResultId,
+    }, token);
+    if (!result) return undefined;
+
+    if ("data" in result) {
+      return this.store(document, version, await this.client.protocol2CodeConverter.asSemanticTokens(result, token));
+    }
+
+    const edits = await this.client.protocol2CodeConverter.asSemanticTokensEdits(result, token);
+    this.store(document, version, new SemanticTokens(applyEdits(previous.data, edits.edits), edits.resultId));
+    return edits;
+  }
+
+  async provideDocumentRangeSemanticTokens(document: TextDocument, range: Range, token: CancellationToken): Promise<SemanticTokens | undefined> {
+    if (!await this.owns(document)) return undefined;
+
+    const cached = this.cached(document);
+    if (cached) return sliceTokens(cached.data, range);
+
+    if (this.capabilities?.range) {
+      const result = await this.client.sendRequest(SemanticTokensRangeRequest.type, {
+        textDocument: this.client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+        range: this.client.code2ProtocolConverter.asRange(range),
+      }, token);
+      return this.client.protocol2CodeConverter.asSemanticTokens(result, token);
+    }
+
+    // Otherwise fetch (and cache) the whole document, and then pick out the range.
+    const tokens = await this.provideDocumentSemanticTokens(document, token);
+    return tokens && sliceTokens(tokens.data, range);
+  }
+
+  dispose() {
+    for (const { source } of this.requests.values()) source.cancel();
+    this.refreshHandler?.dispose();
+    for (const subscription of this.subscriptions) subscription.dispose();
+  }
+}
@@ -1,11 +1,44 @@
 import translations from "./translations.json";
+import names from "./names.json";
 
-const translationData: Record<string, string[]> = translations;
+const defaultTranslations: Record<string, string[]> = translations;
+
+const characterNames = names as Record<string, string>;
+
+let translationData: Record<string, string[]> = defaultTranslations;
 
 let characterMap: Map<string, string[]> | null = null;
 
-/** Input character to trigger Agda input. */
-export const leader = "\\";
+/**
+ * Input character to trigger Agda input.
+ *
+ * This may be changed by {@link configureInput}, so should always be read at
+ * the point of use, rather than copied.
+ */
+export let leader = "\\";
+
+/**
+ * Additional translations to add to (or, when null or empty, remove from) the
+ * default set.
+ */
+export type CustomTranslations = Record<string, string[] | string | null>;
+
+/** Set the leader character and any custom translations. */
+export const configureInput = (newLeader: string, custom: CustomTranslations): void => {
+  leader = newLeader;
+
+  translationData = { ...defaultTranslations };
+  for (const [input, chars] of Object.entries(custom)) {
+    const translations = typeof chars === "string" ? [chars] : chars;
+    if (translations === null || translations.length === 0) {
+      delete translationData[input];
+    } else {
+      translationData[input] = translations;
+    }
+  }
+
+  characterMap = null;
+};
 
 const getCharacterMap = (): Map<string, string[]> => {
   if (characterMap !== null) return characterMap;
@@ -30,3 +63,17 @@ export const findTranslationInput = (character: string): string[] => getCharacte
 
 /** Find translations matching the current input. */
 export const findTranslationChars = (filter: string): [string, string[]][] => Object.entries(translationData).filter(([input, _]) => input.startsWith(filter));
+
+/** Find the translations for exactly this input. */
+export const findExactTranslation = (input: string): string[] =>
+  Object.prototype.hasOwnProperty.call(translationData, input) ? translationData[input] : [];
+
+/** Determine if this input is a strict prefix of some other input, and so may be extended further. */
+export const isTranslationPrefix = (input: string): boolean =>
+  Object.keys(translationData).some(other => other.length > input.length && other.startsWith(input));
+
+/** Get the Unicode name of a character (or sequence of characters), falling back to its code points. */
+export const findCharacterName = (character: string): string =>
+  Object.prototype.hasOwnProperty.call(characterNames, character)
+    ? characterNames[character]
+    : [...character].map(c => `U+${c.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")}`).join(" + ");
@@ -0,0 +1,66 @@
+import { type Disposable, type DocumentSelector, type ExtensionContext, languages, window, workspace } from "vscode";
+
+import { type CustomTranslations, configureInput, leader } from "./data";
+import { InputMethod } from "./method";
+import registerPalette from "./palette";
+import { InputCompletionProvider, InputHoverProvider } from "./providers";
+import registerInputToggle, { setInputSelector } from "./toggle";
+import { agdaSelector } from "../utils";
+
+const defaultLeader = "\\";
+
+/** Read the input configuration, falling back to the defaults if it is invalid. */
+const loadConfiguration = () => {
+  const config = workspace.getConfiguration("agda.input");
+
+  let newLeader = config.get<string>("leader", defaultLeader);
+  if ([...newLeader].length !== 1) {
+    void window.showWarningMessage(`The Agda input leader must be a single character, but is "${newLeader}". Using "${defaultLeader}" instead.`);
+    newLeader = defaultLeader;
+  }
+
+  configureInput(newLeader, config.get<CustomTranslations>("translations", {}));
+
+  const extraLanguages = config.get<string[]>("languages", []);
+  const selector: DocumentSelector = [...agdaSelector, ...extraLanguages.map(language => ({ language }))];
+  setInputSelector(selector);
+
+  return selector;
+};
+
+/**
+ * Register Agda's Unicode input support. The providers are re-registered when
+ * the input configuration changes, as the completion trigger depends on the
+ * leader character, and the selector on the configured languages.
+ */
+export default (context: ExtensionContext): void => {
+  let registrations: Disposable[] = [];
+  const updateToggle = registerInputToggle(context);
+
+  const register = () => {
+    const selector = loadConfiguration();
+
+    for (const registration of registrations) registration.dispose();
+    registrations = [
+      languages.registerHoverProvider(selector, new InputHoverProvider()),
+      languages.registerCompletionItemProvider(selector, new InputCompletionProvider(), leader),
+    ];
+
+    updateToggle();
+  };
+
+  register();
+  registerPalette(context);
+
+  context.subscriptions.push(
+    new InputMethod(),
+    workspace.onDidChangeConfiguration(e => {
+      if (["leader", "translations", "languages"].some(k => e.affectsConfiguration(`agda.input.${k}`))) register();
+    }),
+    {
+      dispose: () => {
+        for (const registration of registrations) registration.dispose();
+      }
+    },
+  );
+};
@@ -0,0 +1,286 @@
+import {
+  type ConfigurationScope, type Disposable, type Position, Range, type TextDocument, type TextDocumentChangeEvent,
+  type TextDocumentContentChangeEvent, type TextEditor, type TextEditorSelectionChangeEvent, ThemeColor, commands,
+  window, workspace
+} from "vscode";
+
+import { findExactTranslation, isTranslationPrefix, leader } from "./data";
+import { isInputEnabled } from "./toggle";
+import { isInCode } from "../literate";
+
+/** How Unicode input is provided. */
+export type InputMode = "inputMethod" | "completion";
+
+/** Get the input mode to use for a document. */
+export const getInputMode = (scope?: ConfigurationScope): InputMode =>
+  workspace.getConfiguration("agda", scope).get<InputMode>("input.mode", "inputMethod");
+
+/** An input sequence which is currently being typed. */
+type Pending = {
+  editor: TextEditor,
+  /** The position of the leader character. */
+  start: Position,
+  /** The text typed after the leader. */
+  input: string,
+};
+
+/** A translation which has just been inserted, and which has several alternatives. */
+type Cycling = {
+  editor: TextEditor,
+  /** The range of the inserted translation. */
+  range: Range,
+  candidates: string[],
+  index: number,
+};
+
+/** An edit being made by the input method itself. */
+type OwnEdit = {
+  document: TextDocument,
+  range: Range,
+  text: string,
+  /** Whether the change for this edit has been seen. */
+  seen: boolean,
+};
+
+const pendingDecoration = window.createTextEditorDecorationType({
+  textDecoration: "underline",
+});
+
+const candidateDecoration = window.createTextEditorDecorationType({
+  after: {
+    color: new ThemeColor("editorCodeLens.foreground"),
+    margin: "0 0 0 1ex",
+  },
+});
+
+/**
+ * An implementation of Emacs's agda-input method.
+ *
+ * Typing the leader character starts an input sequence, which is underlined
+ * while it is being typed. As soon as the sequence is unambiguous, it is
+ * replaced by its translation. If the sequence has several translations,
+ * the alternatives can be cycled through with `agda.input.cycleForward` and
+ * `agda.input.cycleBackward`.
+ */
+export class InputMethod implements Disposable {
+  private pending?: Pending;
+  private cycling?: Cycling;
+
+  /** The edits we are currently applying, whose changes should be ignored. */
+  private readonly applying: OwnEdit[] = [];
+
+  private readonly subscriptions: Disposable[];
+
+  constructor() {
+    this.subscriptions = [
+      workspace.onDidChangeTextDocument(e => this.onDidChangeTextDocument(e)),
+      window.onDidChangeTextEditorSelection(e => this.onDidChangeTextEditorSelection(e)),
+      window.onDidChangeActiveTextEditor(() => this.reset()),
+      commands.registerCommand("agda.input.cycleForward", () => this.cycle(1)),
+      commands.registerCommand("agda.input.cycleBackward", () => this.cycle(-1)),
+    ];
+  }
+
+  dispose() {
+    this.reset();
+    for (const subscription of this.subscriptions) subscription.dispose();
+  }
+
+  private isEnabled(document: TextDocument): boolean {
+    return isInputEnabled(document) && getInputMode(document.uri) === "inputMethod";
+  }
+
+  private reset() {
+    this.pending = undefined;
+    this.setCycling(undefined);
+  }
+
+  private pendingRange({ start, input }: Pending): Range {
+    return new Range(start, start.translate(0, leader.length + input.length));
+  }
+
+  private setPending(pending: Pending | undefined) {
+    this.pending = pending;
+    this.render();
+  }
+
+  private setCycling(cycling: Cycling | undefined) {
+    this.cycling = cycling;
+    void commands.executeCommand("setContext", "agda.input.cycling", cycling !== undefined);
+    this.render();
+  }
+
+  /** Update the decorations for the pending sequence and any alternatives. */
+  private render() {
+    for (const editor of window.visibleTextEditors) {
+      const underline: Range[] = [];
+      const candidates: { range: Range, renderOptions: { after: { contentText: string } } }[] = [];
+
+      if (this.pending?.editor === editor) {
+        const range = this.pendingRange(this.pending);
+        underline.push(range);
+
+        const translations = findExactTranslation(this.pending.input);
+        if (translations.length > 0) {
+          candidates.push({ range, renderOptions: { after: { contentText: translations.join(" ") } } });
+        }
+      }
+
+      if (this.cycling?.editor === editor) {
+        const { range, candidates: all, index } = this.cycling;
+        candidates.push({ range, renderOptions: { after: { contentText: `${index + 1}/${all.length}: ${all.join(" ")}` } } });
+      }
+
+      editor.setDecorations(pendingDecoration, underline);
+      editor.setDecorations(candidateDecoration, candidates);
+    }
+  }
+
+  private onDidChangeTextDocument({ document, contentChanges }: TextDocumentChangeEvent) {
+    if (contentChanges.length === 0 || this.isOwnEdit(document, contentChanges)) return;
+
+    const editor = window.activeTextEditor;
+    if (!editor || editor.document !== document) return;
+
+    this.setCycling(undefined);
+
+    const pending = this.pending;
+    if (contentChanges.length !== 1 || !this.isEnabled(document)) {
+      if (pending) this.setPending(undefined);
+      return;
+    }
+
+    const [change] = contentChanges;
+    if (pending) {
+      const end = this.pendingRange(pending).end;
+
+      if (change.rangeLength === 0 && change.range.start.isEqual(end)) {
+        if (change.text.length === 1 && change.text !== "\n") {
+          // Extend the current sequence.
+          void this.extend(pending, change.text);
+        } else {
+          // Anything else typed after the sequence (a newline, indentation or
+          // an auto-closed pair) ends it, so translate what we have.
+          this.setPending(undefined);
+          void this.commit(pending);
+        }
+        return;
+      } else if (change.text === "" && change.rangeLength === 1 && change.range.end.isEqual(end)) {
+        // Delete the last character of the sequence.
+        this.setPending(change.range.start.isEqual(pending.start) ? undefined : { ...pending, input: pending.input.slice(0, -1) });
+        return;
+      }
+
+      this.setPending(undefined);
+    }
+
+    if (change.rangeLength === 0 && change.text === leader && isInCode(document, change.range.start)) {
+      this.setPending({ editor, start: change.range.start, input: "" });
+    }
+  }
+
+  private onDidChangeTextEditorSelection({ textEditor, selections }: TextEditorSelectionChangeEvent) {
+    if (this.applying.length > 0) return;
+
+    const cursor = selections.length === 1 && selections[0].isEmpty ? selections[0].active : undefined;
+
+    // Moving the cursor outside of the sequence abandons it.
+    if (this.pending?.editor === textEditor) {
+      const range = this.pendingRange(this.pending);
+      if (!cursor || !cursor.isAfter(range.start) || !cursor.isBeforeOrEqual(range.end)) this.setPending(undefined);
+    }
+
+    if (this.cycling?.editor === textEditor && (!cursor || !cursor.isEqual(this.cycling.range.end))) {
+      this.setCycling(undefined);
+    }
+  }
+
+  private async extend(pending: Pending, char: string) {
+    const input = pending.input + char;
+
+    // If this may still be extended, keep waiting for more input.
+    if (isTranslationPrefix(input)) {
+      this.setPending({ ...pending, input });
+      return;
+    }
+
+    this.setPending(undefined);
+
+    const translations = findExactTranslation(input);
+    if (translations.length > 0) {
+      await this.translate(pending.editor, pending.start, input, translations);
+      return;
+    }
+
+    // The new character does not continue the sequence, so translate what we
+    // had so far and leave the new character alone.
+    const previous = await this.commit(pending);
+
+    if (previous !== undefined && char === leader) {
+      this.setPending({ editor: pending.editor, start: pending.start.translate(0, previous.length), input: "" });
+    }
+  }
+
+  /** Replace a sequence with its first translation, if it has one, returning that translation. */
+  private async commit(pending: Pending): Promise<string | undefined> {
+    const translations = findExactTranslation(pending.input);
+    if (translations.length === 0) return undefined;
+
+    await this.translate(pending.editor, pending.start, pending.input, translations);
+    return translations[0];
+  }
+
+  /** Replace an input sequence with its first translation. */
+  private async translate(editor: TextEditor, start: Position, input: string, translations: string[]) {
+    const range = new Range(start, start.translate(0, leader.length + input.length));
+    if (!await this.replace(editor, range, translations[0])) return;
+
+    if (translations.length > 1) {
+      this.setCycling({
+        editor,
+        range: new Range(start, start.translate(0, translations[0].length)),
+        candidates: translations,
+        index: 0,
+      });
+    }
+  }
+
+  /** Replace the most recent translation with the next (or previous) alternative. */
+  private async cycle(delta: number) {
+    const cycling = this.cycling;
+    if (!cycling) return;
+
+    const { editor, range, candidates } = cycling;
+    const index = (cycling.index + delta + candidates.length) % candidates.length;
+    if (!await this.replace(editor, range, candidates[index])) return;
+
+    this.setCycling({ ...cycling, range: new Range(range.start, range.start.translate(0, candidates[index].length)), index });
+  }
+
+  private async replace(editor: TextEditor, range: Range, text: string): Promise<boolean> {
+    const edit: OwnEdit = { document: editor.document, range, text, seen: false };
+    this.applying.push(edit);
+    try {
+      return await editor.edit(b => b.replace(range, text), { undoStopBefore: false, undoStopAfter: false });
+    } finally {
+      this.applying.splice(this.applying.indexOf(edit), 1);
+    }
+  }
+
+  /**
+   * Determine whether a change was made by one of our own edits. Anything else
+   * (such as the user typing while a replacement is being applied) is handled
+   * as normal.
+   */
+  private isOwnEdit(document: TextDocument, contentChanges: readonly TextDocumentContentChangeEvent[]): boolean {
+    if (contentChanges.length !== 1) return false;
+
+    const [change] = contentChanges;
+    const edit = this.applying.find(e =>
+      !e.seen && e.document === document && e.range.isEqual(change.range) && e.text === change.text);
+    if (!edit) return false;
+
+    edit.seen = true;
+    return true;
+  }
+}
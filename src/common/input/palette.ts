@@ -0,0 +1,94 @@
+import { type ExtensionContext, type QuickPickItem, commands, env, window } from "vscode";
+
+import { findCharacterName, findTranslationChars, findTranslationInput, leader } from "./data";
+
+type SymbolItem = QuickPickItem & { symbol: string };
+
+const formatInputs = (inputs: string[]): string => inputs.map(input => leader + input).join("  ");
+
+/** Build a quick pick item for every character which can be typed. */
+const allSymbols = (): SymbolItem[] => {
+  const symbols = new Set<string>();
+  for (const [, chars] of findTranslationChars("")) {
+    for (const char of chars) symbols.add(char);
+  }
+
+  return [...symbols].map(symbol => ({
+    symbol,
+    label: symbol,
+    description: formatInputs(findTranslationInput(symbol)),
+    detail: findCharacterName(symbol),
+  }));
+};
+
+/** Search for a symbol by its input sequence, glyph or name, and insert it at every cursor. */
+const insertSymbol = async () => {
+  const editor = window.activeTextEditor;
+  if (!editor) return;
+
+  const item = await window.showQuickPick(allSymbols(), {
+    title: "Insert symbol",
+    placeHolder: "Search by input sequence, symbol or Unicode name",
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!item) return;
+
+  await editor.edit(b => {
+    for (const selection of editor.selections) b.replace(selection, item.symbol);
+  });
+};
+
+/** List the input sequences for every character in the selection. */
+const describeSelection = async () => {
+  const editor = window.activeTextEditor;
+  if (!editor) return;
+
+  const text = editor.selections.map(s => {
+    if (!s.isEmpty) return editor.document.getText(s);
+
+    // With no selection, describe the character after the cursor.
+    const rest = editor.document.lineAt(s.active.line).text.substring(s.active.character);
+    return [...rest][0] ?? "";
+  }).join("");
+
+  const items: SymbolItem[] = [];
+  for (const char of new Set(text)) {
+    if (char.trim() === "") continue;
+
+    const inputs = findTranslationInput(char);
+    items.push({
+      symbol: char,
+      label: char,
+      description: inputs.length === 0 ? "No input sequence" : formatInputs(inputs),
+      detail: findCharacterName(char),
+    });
+  }
+
+  if (items.length === 0) {
+    void window.showInformationMessage("No characters selected.");
+    return;
+  }
+
+  const item = await window.showQuickPick(items, {
+    title: "Describe characters",
+    placeHolder: "Select a character to copy its input sequence",
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (!item) return;
+
+  const [input] = findTranslationInput(item.symbol);
+  if (input === undefined) return;
+
+  await env.clipboard.writeText(leader + input);
+  window.setStatusBarMessage(`Copied ${leader + input} to the clipboard`, 3000);
+};
+
+/** Register commands to browse and describe the available input. */
+export default (context: ExtensionContext): void => {
+  context.subscriptions.push(
+    commands.registerCommand("agda.input.insertSymbol", insertSymbol),
+    commands.registerCommand("agda.input.describeSelection", describeSelection),
+  );
+};
@@ -1,9 +1,14 @@
 import { CompletionItem, CompletionItemProvider, Hover, HoverProvider, Position, Range, TextDocument } from 'vscode'
 import { leader, findTranslationInput, findTranslationChars } from './data';
+import { getInputMode } from './method';
+import { isInputEnabled } from './toggle';
+import { isInCode } from '../literate';
 
 /** A hover provider for custom input mappings, telling the user what strings can be used to type a value. */
 export class InputHoverProvider implements HoverProvider {
   provideHover(document: TextDocument, pos: Position): Hover | undefined {
+    if (!isInputEnabled(document) || !isInCode(document, pos)) return undefined;
+
     const symbol = document.lineAt(pos.line).text.substring(pos.character, pos.character + 1);
     const inputs = findTranslationInput(symbol)
     if (inputs.length === 0) return undefined;
@@ -13,11 +18,12 @@ export class InputHoverProvider implements HoverProvider {
   }
 }
 
-const commitCharacters = [" ", leader];
 
 /** A completion provider for Agda input values. */
 export class InputCompletionProvider implements CompletionItemProvider {
   provideCompletionItems(document: TextDocument, position: Position): CompletionItem[] | undefined {
+    if (!isInputEnabled(document) || getInputMode(document.uri) !== "completion" || !isInCode(document, position)) return undefined;
+
     const line = document.lineAt(position.line).text;
     const lastIndex = line.lastIndexOf(leader, position.character);
     if (lastIndex < 0) return;
@@ -33,7 +39,7 @@ export class InputCompletionProvider implements CompletionItemProvider {
         const res = new CompletionItem({ label, detail: " " + translation });
         res.range = range;
         res.insertText = translation;
-        res.commitCharacters = commitCharacters;
+        res.commitCharacters = [" ", leader];
         return res;
       })
     })
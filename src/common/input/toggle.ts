@@ -0,0 +1,62 @@
+import {
+  type DocumentSelector, type ExtensionContext, StatusBarAlignment, type TextDocument, commands, languages, window
+} from "vscode";
+
+import { agdaSelector } from "../utils";
+
+/** The documents which input is registered for. */
+let selector: DocumentSelector = agdaSelector;
+
+/** Documents where input has been explicitly disabled. */
+const disabled: Set<string> = new Set();
+
+/** Set the documents which input is registered for. */
+export const setInputSelector = (newSelector: DocumentSelector): void => {
+  selector = newSelector;
+};
+
+/** Determine if Unicode input is enabled for a document. */
+export const isInputEnabled = (document: TextDocument): boolean =>
+  !disabled.has(document.uri.toString()) && languages.match(selector, document) > 0;
+
+/**
+ * Display whether input is enabled for the current editor in the status bar,
+ * and allow toggling it.
+ *
+ * Returns a function to update the status bar item, for when the selector changes.
+ */
+export default (context: ExtensionContext): () => void => {
+  const status = window.createStatusBarItem("agda.input", StatusBarAlignment.Right, 100);
+  status.name = "Agda Input";
+  status.command = "agda.input.toggle";
+
+  const update = () => {
+    const document = window.activeTextEditor?.document;
+    if (!document || languages.match(selector, document) === 0) {
+      status.hide();
+      return;
+    }
+
+    const enabled = !disabled.has(document.uri.toString());
+    status.text = enabled ? "$(keyboard) ∀" : "$(circle-slash) ∀";
+    status.tooltip = enabled ? "Agda input is enabled. Click to disable." : "Agda input is disabled. Click to enable.";
+    status.show();
+  };
+
+  update();
+
+  context.subscriptions.push(
+    status,
+    window.onDidChangeActiveTextEditor(update),
+    commands.registerCommand("agda.input.toggle", () => {
+      const document = window.activeTextEditor?.document;
+      if (!document) return;
+
+      const uri = document.uri.toString();
+      if (!disabled.delete(uri)) disabled.add(uri);
+      update();
+    }),
+  );
+
+  return update;
+};
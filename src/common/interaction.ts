@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+
+import { docToText } from "../api/doc";
+import * as rpc from "../api/rpc";
+import { type AgdaInfoviewProvider } from "./AgdaInfoviewProvider";
+import { type GoalStore } from "./GoalStore";
+import { type ClientPool } from "./client/pool";
+import { type LanguageClientConnection } from "./extension";
+import { getDefaultRewrite, insertAtCursor, isAgdaDocument } from "./utils";
+
+/** The active Agda editor, and the goal under the cursor (if any). */
+type Target = {
+  editor: vscode.TextEditor,
+  uri: vscode.Uri,
+  goal?: rpc.Goal,
+  /** The text inside the goal, without the `{! !}` or `?`. */
+  contents: string,
+};
+
+/** An entry in the quick pick of names: either a name, or a submodule to list the contents of. */
+type NameItem = vscode.QuickPickItem & ({ name: rpc.Name } | { module: string });
+
+const insertButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("insert"),
+  tooltip: "Insert at the cursor",
+};
+
+const infoviewButton: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("open-preview"),
+  tooltip: "Show in the infoview",
+};
+
+/**
+ * Register the interaction commands from Emacs' agda-mode, which show their
+ * results in the infoview.
+ */
+export default (
+  context: vscode.ExtensionContext, clients: ClientPool, agda: LanguageClientConnection, goals: GoalStore, infoview: AgdaInfoviewProvider,
+): void => {
+  const getTarget = async (): Promise<Target | undefined> => {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isAgdaDocument(editor.document)) return undefined;
+
+    const goal = await goals.goalAt(editor.document, editor.selection.start);
+    const contents = goal
+      ? editor.document.getText(clients.protocol2CodeConverter.asRange(goal.goalRange)).replace(/^(\{!|\?)|!\}$/g, "").trim()
+      : "";
+
+    return { editor, uri: editor.document.uri, goal, contents };
+  };
+
+  /** Like {@link getTarget}, but tell the user if the cursor isn't in a goal. */
+  const getGoal = async (): Promise<(Target & { goal: rpc.Goal }) | undefined> => {
+    const target = await getTarget();
+    if (target && !target.goal) void vscode.window.showInformationMessage("The cursor is not in a goal.");
+    return target?.goal ? { ...target, goal: target.goal } : undefined;
+  };
+
+  /**
+   * Ask for the argument of a command. This defaults to the contents of the
+   * goal under the cursor or, outside of a goal, the selection or word under
+   * the cursor.
+   */
+  const prompt = async ({ editor, goal, contents }: Target, title: string, placeHolder: string): Promise<string | undefined> => {
+    const { document, selection } = editor;
+    const word = document.getWordRangeAtPosition(selection.start, /[^\s(){};"@]+/);
+    const value = goal ? contents : document.getText(selection.isEmpty ? word : selection);
+
+    const input = await vscode.window.showInputBox({
+      title: goal ? `${title} in goal ?${goal.goalId}` : title,
+      placeHolder,
+      value,
+    });
+    return input?.trim() || undefined;
+  };
+
+  /** Display a page for the target's document, passing the goal (if any) as a search parameter. */
+  const show = ({ uri, goal }: Target, route: string, params: Record<string, string>) => {
+    const search = new URLSearchParams(params);
+    if (goal) search.set("goal", goal.goalId.toString());
+    infoview.show(uri, `${route}?${search.toString()}`);
+  };
+
+  /**
+   * Show a list of names in a searchable quick pick. Picking a name jumps to
+   * its definition or, if it has none, inserts it at the cursor.
+   */
+  const pickName = (target: Target, title: string, load: (token: vscode.CancellationToken) => Promise<NameItem[]>, onShow: () => void) => {
+    const picker = vscode.window.createQuickPick<NameItem>();
+    picker.title = title;
+    picker.placeholder = "Filter by name or type";
+    picker.matchOnDescription = true;
+    picker.buttons = [infoviewButton];
+    picker.busy = true;
+
+    const source = new vscode.CancellationTokenSource();
+    const insert = (name: string) => {
+      picker.hide();
+      void insertAtCursor(target.uri, name);
+    };
+
+    picker.onDidTriggerButton(() => {
+      picker.hide();
+      onShow();
+    });
+    picker.onDidTriggerItemButton(({ item }) => {
+      if ("name" in item) insert(item.name.nameName);
+    });
+    picker.onDidAccept(() => {
+      const [item] = picker.selectedItems;
+      if (!item) return;
+
+      if ("module" in item) {
+        picker.hide();
+        void moduleContents(target, item.module);
+      } else if (item.name.nameDefinition) {
+        picker.hide();
+        const { uri, range } = item.name.nameDefinition;
+        const start = clients.protocol2CodeConverter.asPosition(range.start);
+        void vscode.window.showTextDocument(clients.protocol2CodeConverter.asUri(uri), { selection: new vscode.Range(start, start) });
+      } else {
+        insert(item.name.nameName);
+      }
+    });
+    picker.onDidHide(() => {
+      source.cancel();
+      source.dispose();
+      picker.dispose();
+    });
+
+    picker.show();
+    load(source.token).then(items => {
+      if (source.token.isCancellationRequested) return;
+      picker.items = items;
+      picker.busy = false;
+    }, (e: unknown) => {
+      if (source.token.isCancellationRequested) return;
+      picker.hide();
+      void vscode.window.showErrorMessage(`${title} failed: ${e instanceof Error ? e.message : String(e)}`);
+    });
+  };
+
+  const nameItem = (name: rpc.Name): NameItem => ({
+    label: name.nameName,
+    description: docToText(name.nameType),
+    buttons: [insertButton],
+    name,
+  });
+
+  const moduleContents = (target: Target, module: string) =>
+    pickName(target, `Module ${module}`, async token => {
+      const rewrite = getDefaultRewrite(target.uri);
+      const { contentsModules, contentsNames } = await agda.postRequest(rpc.Query.ModuleContents, {
+        goal: target.goal?.goalId ?? null, module, rewrite, uri: target.uri,
+      }, token);
+
+      return [
+        ...contentsModules.map(m => ({ label: `$(symbol-namespace) ${m}`, module: `${module}.${m}` })),
+        ...contentsNames.map(nameItem),
+      ];
+    }, () => show(target, "/module", { module }));
+
+  const searchAbout = (target: Target, search: string) =>
+    pickName(target, `Search about ${search}`, async token => {
+      const rewrite = getDefaultRewrite(target.uri);
+      const names = await agda.postRequest(rpc.Query.SearchAbout, {
+        goal: target.goal?.goalId ?? null, query: search, rewrite, uri: target.uri,
+      }, token);
+      return names.map(nameItem);
+    }, () => show(target, "/search", { query: search }));
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("agda.goalTypeAndContext", async () => {
+      const target = await getGoal();
+      if (target) infoview.show(target.uri, `/goal/${target.goal.goalId}`);
+    }),
+    vscode.commands.registerCommand("agda.goalTypeAndInferredType", async () => {
+      const target = await getGoal();
+      if (!target) return;
+
+      // Without anything in the goal there's nothing to infer, so just show the goal.
+      if (target.contents === "") {
+        infoview.show(target.uri, `/goal/${target.goal.goalId}`);
+      } else {
+        infoview.evaluate(target.uri, target.goal.goalId, "InferType", target.contents);
+      }
+    }),
+    vscode.commands.registerCommand("agda.context", async () => {
+      const target = await getGoal();
+      if (target) infoview.show(target.uri, `/goal/${target.goal.goalId}/context`);
+    }),
+    vscode.commands.registerCommand("agda.whyInScope", async () => {
+      const target = await getTarget();
+      const name = target && await prompt(target, "Why in scope", "Name");
+      if (target && name) show(target, "/scope", { name });
+    }),
+    vscode.commands.registerCommand("agda.moduleContents", async () => {
+      const target = await getTarget();
+      const module = target && await prompt(target, "Module contents", "Module name");
+      if (target && module) moduleContents(target, module);
+    }),
+    vscode.commands.registerCommand("agda.searchAbout", async () => {
+      const target = await getTarget();
+      const query = target && await prompt(target, "Search about", "Names, or strings to search for");
+      if (target && query) searchAbout(target, query);
+    }),
+    vscode.commands.registerCommand("agda.solveConstraints", async () => {
+      const target = await getTarget();
+      if (!target) return;
+
+      try {
+        await clients.executeOptionalCommand(target.uri, "solve");
+      } catch (e) {
+        void vscode.window.showErrorMessage(`Failed to solve constraints: ${e instanceof Error ? e.message : String(e)}`);
+        return;
+      }
+      infoview.show(target.uri, "/goals");
+    }),
+    vscode.commands.registerCommand("agda.showConstraints", async () => {
+      const target = await getTarget();
+      if (target) infoview.show(target.uri, "/constraints");
+    }),
+  );
+};
@@ -0,0 +1,83 @@
+import type { Position, TextDocument } from "vscode";
+
+/** A kind of code block in a literate Agda file. */
+type CodeBlock = {
+  /** Matches the line opening a code block. */
+  begin: RegExp,
+  /**
+   * Determine if a line ends the code block. This is given the match of the
+   * opening line.
+   */
+  end: (line: string, begin: RegExpExecArray) => boolean,
+  /** Whether the closing line is part of the block (rather than the first line after it). */
+  endInclusive: boolean,
+};
+
+const fenced = (fence: string): CodeBlock => ({
+  begin: new RegExp(`^\\s*(${fence}{3,})\\s*agda\\b`),
+  end: (line, begin) => line.trim().startsWith(begin[1]),
+  endInclusive: true,
+});
+
+/** The code blocks for each literate file extension. */
+const literateFormats: { extension: string, blocks: CodeBlock[] }[] = [
+  { extension: ".lagda.md", blocks: [fenced("`"), fenced("~")] },
+  { extension: ".lagda.typ", blocks: [fenced("`")] },
+  {
+    extension: ".lagda.tex",
+    blocks: [{ begin: /^\s*\\begin\{code\}/, end: line => /^\s*\\end\{code\}/.test(line), endInclusive: true }],
+  },
+  {
+    extension: ".lagda.org",
+    blocks: [{ begin: /^\s*#\+begin_src\s+agda2?\b/i, end: line => /^\s*#\+end_src\b/i.test(line), endInclusive: true }],
+  },
+  {
+    extension: ".lagda.rst",
+    // reStructuredText blocks are either explicit code blocks, or literal
+    // blocks introduced with "::" (which are the ones Agda checks). Both end at
+    // the first non-blank line which is not indented more than the opening
+    // line. This should agree with agda-rst-codeblock.tmLanguage.json.
+    blocks: [{
+      begin: /^(\s*)(\.\.\s+(code-block|code|sourcecode)::\s*agda\s*$|(?!\.\.).*::\s*$)/,
+      end: (line, begin) => line.trim() !== "" && !line.startsWith(begin[1] + " ") && !line.startsWith(begin[1] + "\t"),
+      endInclusive: false,
+    }],
+  },
+];
+
+/**
+ * Determine if a position in a document is inside Agda code. This is always
+ * true for non-literate files.
+ */
+export const isInCode = (document: TextDocument, position: Position): boolean => {
+  const format = literateFormats.find(({ extension }) => document.uri.path.endsWith(extension));
+  if (!format) return true;
+
+  let open: { block: CodeBlock, match: RegExpExecArray } | undefined;
+  for (let i = 0; i < position.line; i++) {
+    const line = document.lineAt(i).text;
+
+    if (open) {
+      if (!open.block.end(line, open.match)) continue;
+
+      // An inclusive closing line belongs to the block, otherwise it may open another.
+      const inclusive = open.block.endInclusive;
+      open = undefined;
+      if (inclusive) continue;
+    }
+
+    for (const block of format.blocks) {
+      const match = block.begin.exec(line);
+      if (match) {
+        open = { block, match };
+        break;
+      }
+    }
+  }
+
+  if (!open) return false;
+
+  // Unless the position is on the line which closes the block.
+  const line = document.lineAt(position.line).text;
+  return !open.block.end(line, open.match);
+};
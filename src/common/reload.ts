@@ -0,0 +1,84 @@
+import * as vscode from "vscode";
+import { WorkDoneProgress } from "vscode-languageclient";
+
+import { AgdaInfoviewMessage } from "../api/methods";
+import { type ClientPool } from "./client/pool";
+import { isAgdaDocument } from "./utils";
+
+let nextProgressToken = 0;
+
+/**
+ * Reload a document, showing the progress of the type checker in a
+ * notification which can be used to abort the check.
+ *
+ * Progress is taken from the server's work-done progress if it supports it,
+ * and otherwise from the "Checking ..." messages sent to the infoview.
+ */
+const reload = (clients: ClientPool, document: vscode.TextDocument) => vscode.window.withProgress({
+  location: vscode.ProgressLocation.Notification,
+  title: `Checking ${vscode.workspace.asRelativePath(document.uri)}`,
+  cancellable: true,
+}, async (progress, token) => {
+  const uri = document.uri.toString();
+  const client = await clients.clientFor(document.uri);
+
+  const subscriptions: vscode.Disposable[] = [
+    token.onCancellationRequested(() => void clients.executeOptionalCommand(document.uri, "abort")
+      .catch(e => client.error("Failed to abort type checking", e, false))),
+    clients.onNotification(AgdaInfoviewMessage, ({ uri: messageUri, message }) => {
+      if (clients.protocol2CodeConverter.asUri(messageUri).toString() !== uri) return;
+
+      const checking = /^\s*Checking\s+(\S+)/.exec(message);
+      if (checking) progress.report({ message: checking[1] });
+    }),
+  ];
+
+  const workDoneToken = `agda/reload/${nextProgressToken++}`;
+  let began = false;
+  const ended = new Promise<void>(resolve => subscriptions.push(
+    token.onCancellationRequested(() => resolve()),
+    client.onProgress(WorkDoneProgress.type, workDoneToken, value => {
+      if (value.kind === "end") {
+        resolve();
+      } else {
+        began = true;
+        progress.report({ message: value.message });
+      }
+    }),
+  ));
+
+  try {
+    await clients.executeCommand(document.uri, "reload", { workDoneToken }, token);
+
+    // The server may finish the request before it finishes reporting progress.
+    if (began) await ended;
+  } catch (e) {
+    // Cancelling the request rejects it, which we don't need to report.
+    if (!token.isCancellationRequested) throw e;
+  } finally {
+    for (const subscription of subscriptions) subscription.dispose();
+  }
+});
+
+/** Register the commands to reload the current document, and to abort checking it. */
+export default (context: vscode.ExtensionContext, clients: ClientPool): void => {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("agda.reload", async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || !isAgdaDocument(editor.document)) return;
+      await editor.document.save();
+
+      await reload(clients, editor.document);
+    }),
+    vscode.commands.registerCommand("agda.abort", async () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || !isAgdaDocument(editor.document)) return;
+
+      try {
+        await clients.executeOptionalCommand(editor.document.uri, "abort");
+      } catch (e) {
+        void vscode.window.showErrorMessage(`Failed to abort type checking: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+};
@@ -1,18 +1,59 @@
 import * as vscode from "vscode";
 import type * as lsp from "vscode-languageclient";
+import type * as rpc from "../api/rpc";
 
 /** Assert a value is never inhabited. */
 export const assertNever = (x: never): never => { throw new Error(`Impossible case: ${x}`) };
 
+/**
+ * The URI schemes of documents the Agda extension will run on.
+ *
+ * As well as local files, this includes the virtual file systems used by
+ * vscode.dev (`vscode-vfs`) and by the web test harness (`vscode-test-web`).
+ */
+const agdaSchemes = ["file", "vscode-vfs", "vscode-test-web"];
+
+/** The literate Agda files, which are matched by name rather than language. */
+const literatePattern = "**/*.lagda.{md,tex,rst,org,typ}";
+
 /**
  * The text documents that the Agda extension will run on.
  */
-export const agdaSelector: lsp.DocumentSelector & vscode.DocumentSelector = [
-  { scheme: "file", language: "agda" },
-  // By matching lagda.md files, rather than defining a new language, we allow
-  // other Markdown extensions to work with literate files.
-  { scheme: "file", pattern: "**/*.lagda.md" }
+export const agdaSelector: lsp.DocumentSelector & vscode.DocumentSelector = agdaSchemes.flatMap(scheme => [
+  { scheme, language: "agda" },
+  // Literate files other than Markdown have their own languages, but we match
+  // them by name so that they still work if associated with another language.
+  { scheme, pattern: literatePattern },
+]);
+
+/** The Agda documents under a directory. */
+export const agdaSelectorUnder = (root: vscode.Uri): vscode.DocumentFilter[] => [
+  { scheme: root.scheme, pattern: new vscode.RelativePattern(root, "**/*.agda") },
+  { scheme: root.scheme, pattern: new vscode.RelativePattern(root, literatePattern) },
 ];
 
 /** Determine if this document is an Agda file. */
 export const isAgdaDocument = (d: vscode.TextDocument): boolean => vscode.languages.match(agdaSelector, d) > 0;
+
+/** Get the default normalisation level for goals in a document. */
+export const getDefaultRewrite = (scope?: vscode.ConfigurationScope): rpc.Rewrite =>
+  vscode.workspace.getConfiguration("agda", scope).get<rpc.Rewrite>("goal.typeNormalisation", "AsIs");
+
+/** Reveal and select a goal in its document. */
+export const goToGoal = async (uri: vscode.Uri, range: vscode.Range): Promise<void> => {
+  await vscode.window.showTextDocument(uri, { selection: range });
+};
+
+/**
+ * Insert text at the cursor of an editor for a document, replacing the
+ * selection. If the document isn't visible, it is opened first.
+ */
+export const insertAtCursor = async (uri: vscode.Uri, text: string): Promise<void> => {
+  const visible = [vscode.window.activeTextEditor, ...vscode.window.visibleTextEditors]
+    .find(editor => editor?.document.uri.toString() === uri.toString());
+  const editor = await vscode.window.showTextDocument(uri, { viewColumn: visible?.viewColumn });
+
+  await editor.edit(builder => {
+    for (const selection of editor.selections) builder.replace(selection, text);
+  });
+};
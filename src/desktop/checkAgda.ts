@@ -0,0 +1,67 @@
+import { execFile, spawn } from "child_process";
+
+const run = (command: string, args: string[]): Promise<string> => new Promise((resolve, reject) =>
+  execFile(command, args, { timeout: 10_000 }, (error, stdout) => error ? reject(error) : resolve(stdout)));
+
+/** How long to wait for Agda to reject the `--lsp` flag, before assuming it accepted it. */
+const probeTimeout = 2_000;
+
+/** Whether each Agda executable supports the language server, keyed by its path and version. */
+const lspSupport: Map<string, Promise<boolean>> = new Map();
+
+/**
+ * Determine if Agda accepts the `--lsp` flag. Older versions reject the flag as
+ * an unrecognised option and exit straight away. One which supports it starts
+ * the server instead, so we stop it as soon as it closes or the probe times out.
+ */
+const probeLsp = (command: string): Promise<boolean> => new Promise(resolve => {
+  const child = spawn(command, ["--lsp"], { stdio: ["pipe", "ignore", "pipe"] });
+
+  let stderr = "";
+  child.stderr.on("data", (data: Buffer) => stderr += data.toString());
+
+  const timeout = setTimeout(() => child.kill(), probeTimeout);
+  child.on("error", () => {
+    clearTimeout(timeout);
+    resolve(false);
+  });
+  child.on("close", () => {
+    clearTimeout(timeout);
+    resolve(!/unrecogni[sz]ed option/i.test(stderr));
+  });
+
+  child.stdin.end();
+});
+
+const supportsLsp = (command: string, version: string): Promise<boolean> => {
+  const key = `${command}\0${version}`;
+  let supported = lspSupport.get(key);
+  if (!supported) lspSupport.set(key, supported = probeLsp(command));
+  return supported;
+};
+
+/**
+ * Check that the Agda executable exists and supports the language server.
+ *
+ * Returns a description of the problem, if there is one.
+ */
+export const checkAgda = async (command: string): Promise<string | undefined> => {
+  let output: string;
+  try {
+    output = await run(command, ["--version"]);
+  } catch (e) {
+    const error = e as NodeJS.ErrnoException;
+    return error.code === "ENOENT"
+      ? `Could not find the Agda executable "${command}".`
+      : `Could not run "${command} --version": ${error.message}`;
+  }
+
+  const version = /^Agda version (\S+)/m.exec(output)?.[1];
+  if (!version) return `"${command}" does not appear to be Agda, as "${command} --version" printed "${output.trim()}".`;
+
+  if (!await supportsLsp(command, version)) {
+    return `Agda ${version} ("${command}") does not support the language server (--lsp). Select an Agda executable built with language server support.`;
+  }
+
+  return undefined;
+};
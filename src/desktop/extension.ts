@@ -1,21 +1,27 @@
-import { ExtensionContext, workspace } from "vscode";
+import { ExtensionContext, Uri, workspace } from "vscode";
 import { Executable, LanguageClient, TransportKind } from "vscode-languageclient/node";
 import { activate as activateImpl } from "../common/extension";
+import { checkAgda } from "./checkAgda";
 
-export function activate(context: ExtensionContext) {
-  return activateImpl(context, clientOptions => {
-    // If the extension is launched in debug mode then the debug server options are used
-    // Otherwise the run options are used
-    const command = workspace.getConfiguration("agda").get("executable.path", "agda");
-    const opts = workspace.getConfiguration("agda").get<string[]>("executable.options", []);
+const getConfig = (root: Uri) => workspace.getConfiguration("agda", root);
 
-    const args: string[] = ["--lsp", ...opts];
+/** Get the Agda executable for a server. */
+const getCommand = (root: Uri) => getConfig(root).get("executable.path", "agda");
 
-    const serverOptions: Executable = { command, args, transport: TransportKind.stdio };
+export function activate(context: ExtensionContext) {
+  return activateImpl(context, (clientOptions, root) => {
+    // The client reads these every time the server is started, so use getters
+    // to pick up changes to the configuration on restart.
+    const serverOptions: Executable = {
+      get command() { return getCommand(root); },
+      get args() { return ["--lsp", ...getConfig(root).get<string[]>("executable.options", [])]; },
+      transport: TransportKind.stdio,
+      options: { cwd: root.scheme === "file" ? root.fsPath : undefined },
+    };
 
     // Create the language client and start the client.
     return new LanguageClient("agda", "Agda Language Server", serverOptions, clientOptions);
-  });
+  }, root => checkAgda(getCommand(root)));
 }
 
 export { deactivate } from "../common/extension";
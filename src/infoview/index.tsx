@@ -1,11 +1,30 @@
 import * as React from "react";
 import { StrictMode, } from "react";
 import { createRoot } from "react-dom/client";
-import { MemoryRouter, Route, Routes, useNavigate, useParams } from "react-router-dom";
+import { MemoryRouter, Route, Routes, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 
 import * as rpc from "../api/rpc";
+import {
+  type DocFormat, type Endpoint, type Boundary as ParsedBoundary, docToText, goalInfoToString, goalsToString,
+  localBinderDoc, parseBoundary
+} from "../api/doc";
+
+/** State persisted across reloads of the infoview. */
+type InfoviewState = {
+  /** The normalisation level chosen for each goal, keyed by document and goal. */
+  rewrites?: Record<string, rpc.Rewrite>,
+  /** Which kinds of context entries are hidden. */
+  contextFilters?: ContextFilters,
+};
+
+/** Kinds of context entries which can be hidden. */
+type ContextFilters = {
+  implicit: boolean,
+  inaccessible: boolean,
+  notInScope: boolean,
+};
 
-const vscode = acquireVsCodeApi();
+const vscode = acquireVsCodeApi<InfoviewState>();
 const postMessage = (msg: rpc.FromInfoviewMessage): void => vscode.postMessage(msg);
 
 class OpenDocument {
@@ -24,24 +43,76 @@ class OpenDocument {
 
 const DocumentContext: React.Context<OpenDocument> = React.createContext(OpenDocument.empty);
 
+type Settings = {
+  defaultRewrite: rpc.Rewrite,
+};
+
+/** Whether this infoview is a pinned panel, rather than the main infoview. */
+const isPinned = document.body.dataset.pinned === "true";
+
+/** The page a pinned panel displays, and its settings, given in the HTML. */
+const pinnedPage = isPinned ? {
+  uri: document.body.dataset.uri ?? "",
+  route: document.body.dataset.route ?? "/",
+  settings: { defaultRewrite: (document.body.dataset.defaultRewrite ?? "AsIs") as rpc.Rewrite },
+} : undefined;
+
+const SettingsContext: React.Context<Settings> = React.createContext<Settings>({ defaultRewrite: "AsIs" });
+
+/** How long to wait for a reply to a request before giving up. */
+const requestTimeout = 60 * 1000;
+
+type PendingRequest = {
+  resolve: (data: unknown) => void,
+  reject: (error: Error) => void,
+  timeout: ReturnType<typeof setTimeout>,
+};
+
 class MessageConnection implements rpc.Connection<string> {
-  private readonly pending: Map<number, (data: unknown) => void> = new Map();
+  private readonly pending: Map<number, PendingRequest> = new Map();
   private next: number = 0;
 
   constructor() {
     window.addEventListener("message", ev => {
       const msg = ev.data as rpc.ToInfoviewMessage;
-      if (msg.kind === "RPCReply" && this.pending.get(msg.serial)) {
-        this.pending.get(msg.serial)?.(msg.data);
-        this.pending.delete(msg.serial);
+      if (msg.kind !== "RPCReply") return;
+
+      // Replies to requests which have timed out or been cancelled are dropped.
+      const request = this.pending.get(msg.serial);
+      if (!request) return;
+
+      this.settle(msg.serial);
+      if ("error" in msg) {
+        request.reject(new Error(msg.error));
+      } else {
+        request.resolve(msg.data);
       }
     });
   }
 
-  postRequest<P, R>(query: rpc.Query<P, R>, params: P & { uri: string }): Promise<R> {
-    return new Promise((resolve, _reject) => {
+  private settle(serial: number) {
+    const request = this.pending.get(serial);
+    if (request) clearTimeout(request.timeout);
+    this.pending.delete(serial);
+  }
+
+  /**
+   * Send a request to the server. This rejects if the server fails to respond
+   * in time, or if the request is cancelled with the given signal.
+   */
+  postRequest<P, R>(query: rpc.Query<P, R>, params: P & { uri: string }, signal?: AbortSignal): Promise<R> {
+    return new Promise((resolve, reject) => {
       const id = this.next++;
-      this.pending.set(id, resolve as (data: unknown) => void);
+      const timeout = setTimeout(() => {
+        this.cancel(id);
+        reject(new Error("The server did not respond in time."));
+      }, requestTimeout);
+      this.pending.set(id, { resolve: resolve as (data: unknown) => void, reject, timeout });
+
+      signal?.addEventListener("abort", () => {
+        this.cancel(id);
+        reject(new Error("The request was cancelled."));
+      });
 
       postMessage({
         kind: "RPCRequest",
@@ -50,44 +121,107 @@ class MessageConnection implements rpc.Connection<string> {
       });
     });
   }
+
+  private cancel(serial: number) {
+    if (!this.pending.has(serial)) return;
+
+    this.settle(serial);
+    postMessage({ kind: "RPCCancel", serial });
+  }
 }
 
-function useQuery<P, R>(query: rpc.Query<P, R>, param: P, deps: React.DependencyList = []) {
-  const [out, setOut] = React.useState<R>();
+/**
+ * The state of a query. The previous result is kept while the same query is
+ * re-run after the document is reloaded, to avoid flickering.
+ */
+type QueryState<R> = {
+  loading: boolean,
+  data?: R,
+  error?: string,
+};
+
+/**
+ * Run a query against the current document, re-running it when the document
+ * changes. Queries which are superseded before they finish are cancelled, and
+ * their replies ignored.
+ */
+function useQuery<P, R>(query: rpc.Query<P, R>, param: P, deps: React.DependencyList = []): QueryState<R> {
+  const [state, setState] = React.useState<QueryState<R>>({ loading: true });
   const doc = React.useContext(DocumentContext);
+  // The document and dependencies of the last query, to tell a reload apart from a different query.
+  const previous = React.useRef<{ uri: string, deps: React.DependencyList }>();
 
   React.useEffect(() => {
     if (!doc.uri || doc.uri === "about:blank") return;
 
-    void agda.postRequest(query, { ...param, uri: doc.uri }).then(value => setOut(value));
+    const reloaded = previous.current !== undefined && previous.current.uri === doc.uri
+      && previous.current.deps.length === deps.length && previous.current.deps.every((dep, i) => Object.is(dep, deps[i]));
+    previous.current = { uri: doc.uri, deps };
+
+    const controller = new AbortController();
+    setState(state => reloaded ? { ...state, loading: true } : { loading: true });
+
+    agda.postRequest(query, { ...param, uri: doc.uri }, controller.signal).then(
+      data => { if (!controller.signal.aborted) setState({ loading: false, data }); },
+      (e: Error) => { if (!controller.signal.aborted) setState({ loading: false, error: e.message }); },
+    );
+
+    return () => controller.abort();
   }, [...deps, doc.uri, doc.version]);
 
-  return out;
+  return state;
+}
+
+/**
+ * Get the normalisation level for a goal (or other view) in the current
+ * document. Changes to the level are remembered across reloads of the infoview.
+ */
+function useRewrite(key: string): [rpc.Rewrite, (rewrite: rpc.Rewrite) => void] {
+  const { defaultRewrite } = React.useContext(SettingsContext);
+  const { uri } = React.useContext(DocumentContext);
+  const [rewrites, setRewrites] = React.useState(() => vscode.getState()?.rewrites ?? {});
+
+  const storeKey = `${uri}#${key}`;
+  const setRewrite = (rewrite: rpc.Rewrite) => {
+    const state = vscode.getState() ?? {};
+    const updated = { ...state.rewrites, [storeKey]: rewrite };
+    vscode.setState({ ...state, rewrites: updated });
+    setRewrites(updated);
+  };
+
+  return [rewrites[storeKey] ?? defaultRewrite, setRewrite];
 }
 
 const agda = new MessageConnection();
 
 const EventNavigation: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
   const nav = useNavigate();
-  const [doc, setDocument] = React.useState<OpenDocument>(OpenDocument.empty);
+  const [doc, setDocument] = React.useState<OpenDocument>(pinnedPage ? OpenDocument.empty.withURI(pinnedPage.uri) : OpenDocument.empty);
+  const [settings, setSettings] = React.useState<Settings>(pinnedPage?.settings ?? { defaultRewrite: "AsIs" });
 
   React.useEffect(() => {
     window.addEventListener("message", ev => {
       const msg = ev.data as rpc.ToInfoviewMessage;
 
-      let upd = doc ?? OpenDocument.empty, changed = false;
-      if(msg.kind === "Navigate" || msg.kind === "Refresh") {
-        if (msg.uri !== "") upd = upd.withURI(msg.uri), changed = true;
-        if (msg.kind === "Refresh") upd = upd.bump(), changed = true;
-        if (changed) setDocument(upd);
+      if (msg.kind === "Navigate" || msg.kind === "Refresh") {
+        setDocument(doc => {
+          let upd = doc;
+          if (msg.uri !== "") upd = upd.withURI(msg.uri);
+          if (msg.kind === "Refresh") upd = upd.bump();
+          return upd;
+        });
         nav(msg.route);
+      } else if (msg.kind === "Configure") {
+        setSettings({ defaultRewrite: msg.defaultRewrite });
       }
     });
   }, []);
 
-  return <DocumentContext.Provider value={doc}>
-    {children}
-  </DocumentContext.Provider>;
+  return <SettingsContext.Provider value={settings}>
+    <DocumentContext.Provider value={doc}>
+      {children}
+    </DocumentContext.Provider>
+  </SettingsContext.Provider>;
 };
 
 const docClasses = ({ style }: { style: string[] }) => ["agda", ...style].join(" ");
@@ -101,6 +235,13 @@ const Collapsible: React.FC<{ children: React.ReactNode, className: string }> =
   </span>;
 };
 
+/** A name which links to its definition. */
+const DefinitionLink: React.FC<{ definition: rpc.Location, children: React.ReactNode }> = ({ definition, children }) =>
+  <a className="definition" onClick={e => {
+    e.stopPropagation();
+    postMessage({ kind: "GoToDefinition", definition });
+  }}>{children}</a>;
+
 const renderDoc = (doc: rpc.Doc) => <>
   {doc.map(e => {
     if (typeof e === "string") {
@@ -108,8 +249,10 @@ const renderDoc = (doc: rpc.Doc) => <>
     } else if (e.style.find(x => x === "subtree")) {
       return <Collapsible className={docClasses(e)}>{renderDoc(e.children)}</Collapsible>;
     } else {
-      return <span className={docClasses(e)}>
-        {renderDoc(e.children)}
+      return <span className={docClasses(e)} title={e.hover && docToText(e.hover)}>
+        {e.definition
+          ? <DefinitionLink definition={e.definition}>{renderDoc(e.children)}</DefinitionLink>
+          : renderDoc(e.children)}
       </span>;
     }
   })}
@@ -136,12 +279,61 @@ const GoalType: React.FC<{ goal: rpc.Goal }> = ({ goal }) => {
   </span>;
 };
 
-const AllGoals = () => {
-  const goals = useQuery(rpc.Query.AllGoals, { types: true });
+const rewrites: rpc.Rewrite[] = ["AsIs", "Instantiated", "HeadNormal", "Simplified", "Normalised"];
+
+/** A drop-down to pick the normalisation level used to display a goal. */
+const RewriteSelector: React.FC<{ value: rpc.Rewrite, onChange: (rewrite: rpc.Rewrite) => void }> = ({ value, onChange }) =>
+  <select className="rewrite" title="Normalisation level" value={value} onChange={e => onChange(e.target.value as rpc.Rewrite)}>
+    {...rewrites.map(r => <option value={r}>{r}</option>)}
+  </select>;
 
-  if (goals && goals.length >= 1) {
+const copyFormats: { [K in DocFormat]: string } = {
+  text: "Text",
+  markdown: "Markdown",
+  latex: "LaTeX",
+};
+
+/** A drop-down to copy the contents of a section to the clipboard, in a chosen format. */
+const CopyButton: React.FC<{ render: (format: DocFormat) => string }> = ({ render }) =>
+  <select className="copy" title="Copy to the clipboard" value="" onChange={e => postMessage({
+    kind: "Copy",
+    text: render(e.target.value as DocFormat),
+  })}>
+    <option value="" disabled>Copy</option>
+    {...Object.entries(copyFormats).map(([k, v]) => <option value={k}>{v}</option>)}
+  </select>;
+
+/** A button to open the current page in its own panel. */
+const PinButton: React.FC = () => {
+  const { uri } = React.useContext(DocumentContext);
+  const location = useLocation();
+  if (isPinned || !uri) return <></>;
+
+  return <button className="icon" title="Pin in a new panel" onClick={() => postMessage({
+    kind: "Pin",
+    uri,
+    route: location.pathname + location.search,
+  })}>📌</button>;
+};
+
+const AllGoals = () => {
+  const [rewrite, setRewrite] = useRewrite("goals");
+  const { data: goals, error } = useQuery(rpc.Query.AllGoals, { types: true, rewrite }, [rewrite]);
+  const actions = <>
+    {goals && goals.length >= 1 && <CopyButton render={format => goalsToString(goals, format)} />}
+    <RewriteSelector value={rewrite} onChange={setRewrite} />
+    <PinButton />
+  </>;
+
+  if (error) {
     return <div>
-      <Section title="Goals">
+      <Section title="Goals" actions={actions}>
+        <QueryError error={error} />
+      </Section>
+    </div>;
+  } else if (goals && goals.length >= 1) {
+    return <div>
+      <Section title="Goals" actions={actions}>
         <ul className="entry-list" style={{ gap: "1em" }}>
           {...(goals ?? []).map(g => <GoalType goal={g} />)}
         </ul>
@@ -149,7 +341,7 @@ const AllGoals = () => {
     </div>;
   } else if (goals) {
     return <div>
-      <Section title="Goals">
+      <Section title="Goals" actions={actions}>
         <span className="agda">All done 🎉</span>
       </Section>
     </div>;
@@ -162,33 +354,40 @@ const AllGoals = () => {
   }
 };
 
-const Section: React.FC<{ title: string, children: React.ReactNode, open?: boolean }> =
-  ({ title, children, open }) =>
+/** Display why a query failed. */
+const QueryError: React.FC<{ error: string }> = ({ error }) =>
+  <span className="agda query-error">{error}</span>;
+
+const Section: React.FC<{ title: string, children: React.ReactNode, open?: boolean, actions?: React.ReactNode }> =
+  ({ title, children, open, actions }) =>
     <details className="section block" open={(open === undefined) ? true : open}>
-      <summary className="section-header">{title.toLowerCase()}</summary>
+      <summary className="section-header">
+        {title.toLowerCase()}
+        {/* Prevent clicks on the actions from toggling the section. */}
+        {actions && <span className="section-actions" onClick={e => e.preventDefault()}>{actions}</span>}
+      </summary>
       {children}
     </details>;
 
+/** The flags labelled after a binder. Erased and instance binders are already marked by the binder itself. */
+type LabelledFlag = Extract<rpc.LocalFlag, { tag: "NotInScope" | "Inaccessible" }>;
+
 const Entry: React.FC<{ entry: rpc.Local }> = ({ entry }) => {
+  const { uri } = React.useContext(DocumentContext);
+  const flags = entry.localFlags?.filter((f): f is LabelledFlag => f.tag === "NotInScope" || f.tag === "Inaccessible") ?? [];
 
-  const mkFlag = (f: rpc.LocalFlag, index: number) => {
+  const mkFlag = (f: LabelledFlag, index: number) => {
     switch (f.tag) {
       case "NotInScope": return (index === 0) ? "Not in scope" : "not in scope";
       case "Inaccessible": return (index === 0) ? f.contents : f.contents.toLowerCase();
-      case "Erased": return (index === 0) ? "Erased" : "erased";
-      case "Instance": return (index === 0) ? "Instance" : "instance";
     }
   };
 
-  return <li className={`${!entry.localFlags || "out-of-scope"}`}>
+  return <li className={`${flags.length === 0 || "out-of-scope"}`}>
     <div className="lines">
       <span className="agda">
-        <Doc it={entry.localBinder} />
-        {
-          entry.localFlags &&
-          entry.localFlags.length >= 1 &&
-          <span className="out-of-scope-label">{entry.localFlags.map(mkFlag).join(", ")}</span>
-        }
+        <Doc it={localBinderDoc(entry, uri)} />
+        {flags.length >= 1 && <span className="out-of-scope-label">{flags.map(mkFlag).join(", ")}</span>}
       </span>
 
       {entry.localValue && <Doc it={entry.localValue} />}
@@ -196,14 +395,125 @@ const Entry: React.FC<{ entry: rpc.Local }> = ({ entry }) => {
   </li>;
 };
 
-const Boundary: React.FC<{ boundary: rpc.Doc[] }> = ({ boundary }) =>
-  <Section title="Boundary">
+const contextFilterLabels: { [K in keyof ContextFilters]: string } = {
+  implicit: "implicit",
+  inaccessible: "inaccessible",
+  notInScope: "not in scope",
+};
+
+const isHidden = (entry: rpc.Local, filters: ContextFilters): boolean =>
+  (filters.implicit && entry.localHiding === "Hidden") ||
+  (filters.inaccessible && !!entry.localFlags?.some(f => f.tag === "Inaccessible")) ||
+  (filters.notInScope && !!entry.localFlags?.some(f => f.tag === "NotInScope"));
+
+/**
+ * The context of a goal, with toggles to hide some kinds of entries and a box
+ * to filter entries by name. The toggles are remembered across reloads.
+ */
+const Context: React.FC<{ context: rpc.Context }> = ({ context }) => {
+  const [filters, setFilters] = React.useState<ContextFilters>(() =>
+    vscode.getState()?.contextFilters ?? { implicit: false, inaccessible: false, notInScope: false });
+  const [search, setSearch] = React.useState("");
+
+  const toggle = (key: keyof ContextFilters) => {
+    const updated = { ...filters, [key]: !filters[key] };
+    vscode.setState({ ...vscode.getState(), contextFilters: updated });
+    setFilters(updated);
+  };
+
+  const needle = search.trim().toLowerCase();
+  const shown = context.filter(e =>
+    !isHidden(e, filters) && (!needle || docToText(e.localBinder).toLowerCase().includes(needle)));
+
+  return <Section title="Context">
+    <div className="context-toolbar">
+      <span>Hide</span>
+      {...Object.entries(contextFilterLabels).map(([key, label]) => <label>
+        <input type="checkbox" checked={filters[key as keyof ContextFilters]} onChange={() => toggle(key as keyof ContextFilters)} />
+        {label}
+      </label>)}
+      <input type="search" placeholder="Filter names" value={search} onChange={e => setSearch(e.target.value)} />
+    </div>
     <ul className="entry-list">
-      {...boundary.map(face => <li>
-        <Doc it={face} />
-      </li>)}
+      {...shown.map(e => <Entry entry={e} />)}
     </ul>
+    {shown.length < context.length && <span className="hidden-count">{context.length - shown.length} hidden</span>}
   </Section>;
+};
+
+/** The faces of a boundary, keyed by interval variable, highlighting the face which is hovered. */
+const BoundaryTable: React.FC<{ boundary: ParsedBoundary, hovered?: number, onHover: (face?: number) => void }> =
+  ({ boundary: { variables, faces }, hovered, onHover }) =>
+    <table className="boundary">
+      <thead>
+        <tr>{...variables.map(v => <th>{v}</th>)}<th /></tr>
+      </thead>
+      <tbody>
+        {...faces.map((face, i) =>
+          <tr className={i === hovered ? "highlighted" : ""} onMouseEnter={() => onHover(i)} onMouseLeave={() => onHover(undefined)}>
+            {...variables.map(v => <td className="endpoint">{face.conditions[v] ?? ""}</td>)}
+            <td><Doc it={face.term} /></td>
+          </tr>)}
+      </tbody>
+    </table>;
+
+/**
+ * A diagram of a 1- or 2-dimensional boundary: a line or square whose edges
+ * and corners show the term required on that face. The first variable runs
+ * left to right, and the second bottom to top.
+ */
+const BoundaryDiagram: React.FC<{ boundary: ParsedBoundary, hovered?: number, onHover: (face?: number) => void }> =
+  ({ boundary: { variables, faces }, hovered, onHover }) => {
+    const [i, j] = variables;
+
+    /** The cell for the face where the variables are at the given endpoints (or free, if undefined). */
+    const cell = (iAt?: Endpoint, jAt?: Endpoint) => {
+      const index = faces.findIndex(({ conditions }) =>
+        conditions[i] === iAt && (j === undefined || conditions[j] === jAt) &&
+        Object.keys(conditions).length === (iAt ? 1 : 0) + (jAt ? 1 : 0));
+      const face = faces[index];
+      const kind = iAt && (j === undefined || jAt) ? "corner" : "edge";
+
+      return <div
+        className={`face ${kind}${face ? "" : " empty"}${index >= 0 && index === hovered ? " highlighted" : ""}`}
+        onMouseEnter={() => face && onHover(index)} onMouseLeave={() => onHover(undefined)}>
+        {face && <Doc it={face.term} />}
+      </div>;
+    };
+
+    if (j === undefined) {
+      return <div className="boundary-diagram one">
+        {cell("i0")}<div className="face interior">{i}</div>{cell("i1")}
+      </div>;
+    }
+
+    return <div className="boundary-diagram two">
+      {cell("i0", "i1")}{cell(undefined, "i1")}{cell("i1", "i1")}
+      {cell("i0", undefined)}<div className="face interior">{i} →<br />{j} ↑</div>{cell("i1", undefined)}
+      {cell("i0", "i0")}{cell(undefined, "i0")}{cell("i1", "i0")}
+    </div>;
+  };
+
+const Boundary: React.FC<{ boundary: rpc.Doc[] }> = ({ boundary }) => {
+  const [hovered, setHovered] = React.useState<number>();
+  const parsed = parseBoundary(boundary);
+
+  // Fall back to the faces as Agda displays them if we can't understand them.
+  if (!parsed || parsed.variables.length === 0) {
+    return <Section title="Boundary">
+      <ul className="entry-list">
+        {...boundary.map(face => <li>
+          <Doc it={face} />
+        </li>)}
+      </ul>
+    </Section>;
+  }
+
+  return <Section title="Boundary">
+    {parsed.variables.length <= 2 && <BoundaryDiagram boundary={parsed} hovered={hovered} onHover={setHovered} />}
+    <BoundaryTable boundary={parsed} hovered={hovered} onHover={setHovered} />
+  </Section>;
+};
 
 const RunningInfo = () => {
   const doc = React.useContext(DocumentContext);
@@ -225,27 +535,115 @@ const RunningInfo = () => {
   </Section>;
 };
 
-const Goal = () => {
+const evaluationModes: { [K in rpc.EvaluationMode]: string } = {
+  InferType: "Infer type",
+  ComputeNormalForm: "Normalise",
+};
+
+/**
+ * An input box to infer the type of, or normalise, an expression in the
+ * context of a goal.
+ *
+ * The initial mode and expression may be provided with the `mode` and `expr`
+ * search parameters, in which case the expression is evaluated immediately.
+ * Each request also has a distinct `request` parameter, so that the same
+ * expression can be evaluated again.
+ */
+const Evaluator: React.FC<{ goal: number | null }> = ({ goal }) => {
+  const { uri, version } = React.useContext(DocumentContext);
+  const [params] = useSearchParams();
+  const [mode, setMode] = React.useState<rpc.EvaluationMode>("InferType");
+  const [expr, setExpr] = React.useState("");
+  const [result, setResult] = React.useState<rpc.Doc>();
+  const [error, setError] = React.useState<string>();
+  /** The evaluation in progress, which is cancelled when superseded. */
+  const running = React.useRef<AbortController>();
+
+  const evaluate = (mode: rpc.EvaluationMode, expr: string) => {
+    if (!uri || uri === "about:blank" || expr.trim() === "") return;
+
+    running.current?.abort();
+    const controller = running.current = new AbortController();
+
+    const query = mode === "InferType" ? rpc.Query.InferType : rpc.Query.ComputeNormalForm;
+    agda.postRequest(query, { goal, expr, uri }, controller.signal).then(
+      value => { if (!controller.signal.aborted) { setResult(value); setError(undefined); } },
+      (e: Error) => { if (!controller.signal.aborted) { setResult(undefined); setError(e.message); } },
+    );
+  };
+
+  // Results are only meaningful for the goal and version of the document they
+  // were evaluated in.
+  React.useEffect(() => {
+    setResult(undefined);
+    setError(undefined);
+    return () => running.current?.abort();
+  }, [goal, uri, version]);
+
+  React.useEffect(() => {
+    const initialMode = params.get("mode"), initialExpr = params.get("expr");
+    if (initialExpr === null) return;
+
+    const mode = initialMode === "ComputeNormalForm" ? initialMode : "InferType";
+    setMode(mode);
+    setExpr(initialExpr);
+    evaluate(mode, initialExpr);
+  }, [params, uri, goal]);
+
+  return <Section title="Evaluate">
+    <form className="evaluator" onSubmit={e => { e.preventDefault(); evaluate(mode, expr); }}>
+      <select value={mode} onChange={e => setMode(e.target.value as rpc.EvaluationMode)}>
+        {...Object.entries(evaluationModes).map(([k, v]) => <option value={k}>{v}</option>)}
+      </select>
+      <input type="text" value={expr} placeholder="Expression" onChange={e => setExpr(e.target.value)} />
+    </form>
+    {result && <Doc it={result} />}
+    {error && <QueryError error={error} />}
+  </Section>;
+};
+
+/** The page for a goal. If `contextOnly` is set, only the goal's context is shown. */
+const Goal: React.FC<{ contextOnly?: boolean }> = ({ contextOnly }) => {
   const { id: ids } = useParams<{ id: string }>();
   const id = Number.parseInt(ids ?? "");
   if (typeof id !== "number") return;
 
-  const goal = useQuery(rpc.Query.GoalInfo, { goal: id }, [id]);
+  const [rewrite, setRewrite] = useRewrite(`goal/${id}`);
+  const { data: goal, error } = useQuery(rpc.Query.GoalInfo, { goal: id, rewrite }, [id, rewrite]);
   const context = goal?.goalContext ?? [];
   const constraints = goal?.goalConstraints ?? [];
+  const actions = <><RewriteSelector value={rewrite} onChange={setRewrite} /><PinButton /></>;
+
+  if (error) {
+    return <div className="sections">
+      <Section title="Goal" actions={actions}>
+        <QueryError error={error} />
+      </Section>
+    </div>;
+  } else if (!goal) {
+    return <div className="sections">
+      <Section title="Goal">
+        <span className="agda">Loading...</span>
+      </Section>
+    </div>;
+  }
 
-  return goal && <div className="sections">
-    <Section title="Goal">
+  if (contextOnly) {
+    return <div className="sections">
+      {context.length >= 1 ? <Context context={context} /> : <Section title="Context">
+        <span className="agda">The context is empty.</span>
+      </Section>}
+    </div>;
+  }
+
+  return <div className="sections">
+    <Section title="Goal" actions={<><CopyButton render={format => goalInfoToString(goal, format)} />{actions}</>}>
       <GoalType goal={goal.goalGoal} />
     </Section>
 
     {goal.goalBoundary && <Boundary boundary={goal.goalBoundary} />}
 
-    {context.length >= 1 && <Section title="Context">
-      <ul className="entry-list">
-        {...context.map((e: rpc.Local) => <Entry entry={e} />)}
-      </ul>
-    </Section>}
+    {context.length >= 1 && <Context context={context} />}
 
     {constraints.length >= 1 && <Section title="Constraints">
       <ul className="entry-list">
@@ -253,16 +651,122 @@ const Goal = () => {
       </ul>
     </Section>}
 
+    <Evaluator goal={id} />
+
+  </div>;
+};
+
+/** The goal given in the `goal` search parameter, or null for the top level. */
+const useGoalParam = (): number | null => {
+  const [params] = useSearchParams();
+  const goal = Number.parseInt(params.get("goal") ?? "");
+  return Number.isNaN(goal) ? null : goal;
+};
+
+/** Display the result of a query, or why it failed. */
+function QueryResult<R>({ title, state, actions, children }: {
+  title: string,
+  state: QueryState<R>,
+  actions?: React.ReactNode,
+  children: (data: R) => React.ReactNode,
+}) {
+  return <div className="sections">
+    <Section title={title} actions={actions}>
+      {state.error ? <QueryError error={state.error} />
+        : state.data !== undefined ? children(state.data)
+          : <span className="agda">Loading...</span>}
+    </Section>
   </div>;
+}
+
+/**
+ * A list of names and their types. Names link to their definitions, and can
+ * be inserted at the cursor.
+ */
+const NameList: React.FC<{ names: rpc.Name[] }> = ({ names }) => {
+  const { uri } = React.useContext(DocumentContext);
+
+  return <ul className="entry-list">
+    {...names.map(({ nameName, nameType, nameDefinition }) => <li className="name-entry">
+      <button className="icon" title="Insert at the cursor" onClick={() => postMessage({
+        kind: "InsertName",
+        uri: uri!,
+        name: nameName,
+      })}>⎀</button>
+      <span className="agda">
+        <Doc it={[{ style: [], children: [nameName], definition: nameDefinition ?? undefined }, " : ", ...nameType]} />
+      </span>
+    </li>)}
+  </ul>;
+};
+
+const WhyInScope = () => {
+  const [params] = useSearchParams();
+  const goal = useGoalParam(), name = params.get("name") ?? "";
+  const state = useQuery(rpc.Query.WhyInScope, { goal, name }, [goal, name]);
+
+  return <QueryResult title={`Why is ${name} in scope?`} state={state}>
+    {doc => <Doc it={doc} />}
+  </QueryResult>;
+};
+
+const ModuleContents = () => {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const goal = useGoalParam(), module = params.get("module") ?? "";
+  const [rewrite, setRewrite] = useRewrite(`module/${module}`);
+
+  const open = (submodule: string) => {
+    const search = new URLSearchParams(params);
+    search.set("module", `${module}.${submodule}`);
+    navigate(`/module?${search.toString()}`);
+  };
+  const state = useQuery(rpc.Query.ModuleContents, { goal, module, rewrite }, [goal, module, rewrite]);
+
+  return <QueryResult title={`Module ${module}`} state={state} actions={<RewriteSelector value={rewrite} onChange={setRewrite} />}>
+    {({ contentsModules, contentsNames }) => <>
+      {contentsModules.length >= 1 && <div className="agda">
+        Modules: {...contentsModules.map((m, i) => <>{i > 0 && ", "}<a onClick={() => open(m)}>{m}</a></>)}
+      </div>}
+      <NameList names={contentsNames} />
+    </>}
+  </QueryResult>;
+};
+
+const SearchAbout = () => {
+  const [params] = useSearchParams();
+  const goal = useGoalParam(), query = params.get("query") ?? "";
+  const [rewrite, setRewrite] = useRewrite("search");
+  const state = useQuery(rpc.Query.SearchAbout, { goal, query, rewrite }, [goal, query, rewrite]);
+
+  return <QueryResult title={`Search about ${query}`} state={state} actions={<RewriteSelector value={rewrite} onChange={setRewrite} />}>
+    {names => names.length >= 1 ? <NameList names={names} /> : <span className="agda">No results.</span>}
+  </QueryResult>;
+};
+
+const Constraints = () => {
+  const state = useQuery(rpc.Query.Constraints, {});
+
+  return <QueryResult title="Constraints" state={state}>
+    {constraints => constraints.length >= 1
+      ? <ul className="entry-list">{...constraints.map(c => <li><Doc it={c} /></li>)}</ul>
+      : <span className="agda">No constraints.</span>}
+  </QueryResult>;
 };
 
 function Document() {
-  return <MemoryRouter>
+  return <MemoryRouter initialEntries={[pinnedPage?.route ?? "/"]}>
     <EventNavigation>
       <Routes>
         <Route path="/" element={<RunningInfo />} />
         <Route path="/goals" element={<AllGoals />} />
         <Route path="/goal/:id" element={<Goal />} />
+        <Route path="/goal/:id/context" element={<Goal contextOnly />} />
+        <Route path="/eval" element={<div className="sections"><Evaluator goal={null} /></div>} />
+        <Route path="/scope" element={<WhyInScope />} />
+        <Route path="/module" element={<ModuleContents />} />
+        <Route path="/search" element={<SearchAbout />} />
+        <Route path="/constraints" element={<Constraints />} />
       </Routes>
     </EventNavigation>
   </MemoryRouter>;
@@ -0,0 +1,71 @@
+import { ExtensionContext, Uri, workspace } from "vscode";
+import { BaseLanguageClient, BrowserMessageReader, BrowserMessageWriter, LanguageClientOptions, MessageTransports } from "vscode-languageclient/browser";
+import { activate as activateImpl } from "../common/extension";
+import { AbstractLanguageClient } from "../common/client";
+
+/**
+ * A language client which talks to an Agda server running inside a web worker.
+ *
+ * Unlike the {@link LanguageClient} provided by `vscode-languageclient/browser`,
+ * this spawns a fresh worker every time the client is started, which allows us
+ * to restart the server.
+ */
+class WorkerLanguageClient extends BaseLanguageClient implements AbstractLanguageClient {
+  private worker?: Worker;
+  /** The blob: URL of the script which loads the configured worker. */
+  private workerScript?: string;
+
+  constructor(id: string, name: string, clientOptions: LanguageClientOptions, private readonly workerUri: Uri) {
+    super(id, name, clientOptions);
+  }
+
+  protected createMessageTransports(_encoding: string): Promise<MessageTransports> {
+    this.terminate();
+
+    // Workers can only be created from same-origin scripts, while the
+    // configured worker is usually hosted elsewhere. Instead, start a worker
+    // from a blob: URL, which then imports the configured script.
+    const script = `importScripts(${JSON.stringify(this.workerUri.toString(true))});`;
+    this.workerScript = URL.createObjectURL(new Blob([script], { type: "text/javascript" }));
+
+    const worker = this.worker = new Worker(this.workerScript);
+    return Promise.resolve({ reader: new BrowserMessageReader(worker), writer: new BrowserMessageWriter(worker) });
+  }
+
+  private terminate() {
+    this.worker?.terminate();
+    this.worker = undefined;
+    if (this.workerScript) URL.revokeObjectURL(this.workerScript);
+    this.workerScript = undefined;
+  }
+
+  async restart(): Promise<void> {
+    await this.stop();
+    await this.start();
+  }
+
+  async dispose(timeout?: number): Promise<void> {
+    await super.dispose(timeout);
+    this.terminate();
+  }
+}
+
+/**
+ * The worker script running Agda, such as a build of Agda compiled to WASM.
+ * This may be hosted on any origin, as it is loaded with `importScripts`.
+ */
+const getWorkerPath = (root: Uri): string =>
+  workspace.getConfiguration("agda", root).get<string>("executable.webWorker", "");
+
+export function activate(context: ExtensionContext) {
+  return activateImpl(
+    context,
+    (clientOptions, root) => new WorkerLanguageClient("agda", "Agda Language Server", clientOptions, Uri.parse(getWorkerPath(root))),
+    // No worker is bundled with the extension, so one must be configured.
+    root => Promise.resolve(getWorkerPath(root)
+      ? undefined
+      : "No Agda web worker is configured. Set \"agda.executable.webWorker\" to the URL of a script running Agda's language server in a web worker."),
+  );
+}
+
+export { deactivate } from "../common/extension";